@@ -0,0 +1,193 @@
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import { createHash } from "crypto";
+import type { CacheStats } from "./types.js";
+import { loadConfig } from "./config.js";
+
+const CACHE_DIR = join(homedir(), ".pr-desc", "cache");
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_SIZE_MB = 50;
+
+export interface CacheKeyParts {
+  provider: string;
+  model?: string;
+  temperature: number;
+  prompt: string;
+  format?: "text" | "object"; // generateObject and generateText answers differ
+}
+
+interface CacheEntry<T> {
+  createdAt: string;
+  provider: string;
+  model?: string;
+  value: T;
+}
+
+function getLimits() {
+  const { cache } = loadConfig();
+  return {
+    ttlMs: (cache?.ttlHours ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000,
+    maxBytes: (cache?.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024,
+  };
+}
+
+export function getCacheKey(parts: CacheKeyParts): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        parts.provider,
+        parts.model ?? "",
+        parts.temperature,
+        parts.format ?? "text",
+        parts.prompt,
+      ])
+    )
+    .digest("hex");
+}
+
+function entryPath(key: string): string {
+  return join(CACHE_DIR, `${key}.json`);
+}
+
+function readEntry<T>(path: string): CacheEntry<T> {
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+// Expiry counts from when the answer was generated; hits don't extend it
+function isExpired(entry: CacheEntry<unknown>, ttlMs: number): boolean {
+  return Date.now() - Date.parse(entry.createdAt) > ttlMs;
+}
+
+function listEntries(): { path: string; size: number; mtimeMs: number }[] {
+  if (!existsSync(CACHE_DIR)) return [];
+  return readdirSync(CACHE_DIR)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => {
+      const path = join(CACHE_DIR, name);
+      const { size, mtimeMs } = statSync(path);
+      return { path, size, mtimeMs };
+    });
+}
+
+export function readCache<T>(key: string): T | undefined {
+  const path = entryPath(key);
+  if (!existsSync(path)) return undefined;
+  try {
+    const entry = readEntry<T>(path);
+    if (isExpired(entry, getLimits().ttlMs)) {
+      rmSync(path, { force: true });
+      return undefined;
+    }
+    // mtime tracks the last hit, pruning drops the least recently used
+    const now = new Date();
+    utimesSync(path, now, now);
+    return entry.value;
+  } catch (error) {
+    // a corrupt entry is just a miss
+    return undefined;
+  }
+}
+
+export function writeCache<T>(
+  key: string,
+  value: T,
+  meta: { provider: string; model?: string }
+): void {
+  try {
+    // prompts carry diffs; keep them private like the credential store
+    mkdirSync(CACHE_DIR, { recursive: true, mode: 0o700 });
+    // older versions created it world-readable
+    chmodSync(CACHE_DIR, 0o700);
+    const entry: CacheEntry<T> = {
+      createdAt: new Date().toISOString(),
+      ...meta,
+      value,
+    };
+    const path = entryPath(key);
+    writeFileSync(path, JSON.stringify(entry), { mode: 0o600 });
+    // writeFileSync only applies the mode when it creates the file
+    chmodSync(path, 0o600);
+    pruneCache();
+  } catch (error) {
+    // caching is best effort; never fail a generation over it
+  }
+}
+
+// Drop entries older than the TTL, then the least recently used ones until
+// the cache fits in maxSizeMB.
+function pruneCache(): void {
+  const { ttlMs, maxBytes } = getLimits();
+  const entries = listEntries().sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  let total = 0;
+  for (const entry of entries) {
+    let drop: boolean;
+    try {
+      drop = isExpired(readEntry(entry.path), ttlMs);
+    } catch (error) {
+      drop = true; // corrupt
+    }
+    total += entry.size;
+    if (drop || total > maxBytes) {
+      rmSync(entry.path, { force: true });
+      total -= entry.size;
+    }
+  }
+}
+
+// Answer from the cache, or run generate() and remember its result.
+// `enabled: false` (--no-cache, regenerate) neither reads nor writes.
+export async function withCache<T>(
+  parts: CacheKeyParts,
+  enabled: boolean | undefined,
+  generate: () => Promise<T>
+): Promise<{ value: T; cached: boolean }> {
+  if (enabled === false) return { value: await generate(), cached: false };
+
+  const key = getCacheKey(parts);
+  const hit = readCache<T>(key);
+  if (hit !== undefined) return { value: hit, cached: true };
+
+  const value = await generate();
+  // empty answers are failures in disguise; ask again next time
+  if (value !== "") {
+    writeCache(key, value, { provider: parts.provider, model: parts.model });
+  }
+  return { value, cached: false };
+}
+
+export function getCacheStats(): CacheStats {
+  const { ttlMs, maxBytes } = getLimits();
+  const entries = listEntries();
+  const times = entries.map((e) => e.mtimeMs);
+
+  return {
+    path: CACHE_DIR,
+    entries: entries.length,
+    bytes: entries.reduce((sum, e) => sum + e.size, 0),
+    oldest: times.length ? new Date(Math.min(...times)) : undefined,
+    newest: times.length ? new Date(Math.max(...times)) : undefined,
+    ttlHours: ttlMs / (60 * 60 * 1000),
+    maxSizeMB: maxBytes / (1024 * 1024),
+  };
+}
+
+export function clearCache(): { entries: number; bytes: number } {
+  const entries = listEntries();
+  for (const entry of entries) rmSync(entry.path, { force: true });
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, e) => sum + e.size, 0),
+  };
+}
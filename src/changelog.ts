@@ -0,0 +1,214 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { generateText } from "ai";
+import type {
+  Changelog,
+  ChangelogEntry,
+  ChangelogGroup,
+  CommitInfo,
+} from "./types.js";
+import { getAIModel } from "./models.js";
+import { withCache } from "./cache.js";
+import { mapTypeToLabel, parseConventionalCommit } from "./utils.js";
+
+// Order of sections in the rendered changelog; unknown types go last.
+const TYPE_ORDER = [
+  "feat",
+  "fix",
+  "perf",
+  "refactor",
+  "docs",
+  "style",
+  "test",
+  "build",
+  "ci",
+  "chore",
+];
+const OTHER_TYPE = "other";
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).
+`;
+
+export function buildChangelog(
+  commits: CommitInfo[],
+  options: { from: string; to: string; release: string; date?: string }
+): Changelog {
+  const entries: ChangelogEntry[] = commits.map((commit) => {
+    const parsed = parseConventionalCommit(commit.message, commit.body);
+    return {
+      type: parsed?.type ?? OTHER_TYPE,
+      scope: parsed?.scope,
+      subject: parsed?.subject ?? commit.message.trim(),
+      breaking: parsed?.breaking ?? false,
+      hash: commit.hash,
+      author: commit.author,
+    };
+  });
+
+  // breaking entries are listed on their own, not again under their type
+  const byType = new Map<string, ChangelogEntry[]>();
+  for (const entry of entries.filter((e) => !e.breaking)) {
+    byType.set(entry.type, [...(byType.get(entry.type) || []), entry]);
+  }
+
+  const rank = (type: string) => {
+    const index = TYPE_ORDER.indexOf(type);
+    if (type === OTHER_TYPE) return TYPE_ORDER.length + 1;
+    return index === -1 ? TYPE_ORDER.length : index;
+  };
+
+  const groups: ChangelogGroup[] = Array.from(byType.entries())
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([type, typeEntries]) => {
+      const byScope = new Map<string | undefined, ChangelogEntry[]>();
+      for (const entry of typeEntries) {
+        byScope.set(entry.scope, [...(byScope.get(entry.scope) || []), entry]);
+      }
+      return {
+        type,
+        label: mapTypeToLabel(type),
+        // unscoped entries first, then scopes alphabetically
+        scopes: Array.from(byScope.entries())
+          .sort(([a], [b]) =>
+            a === undefined ? -1 : b === undefined ? 1 : a.localeCompare(b)
+          )
+          .map(([scope, scopeEntries]) => ({ scope, entries: scopeEntries })),
+      };
+    });
+
+  return {
+    release: options.release,
+    date: options.date ?? new Date().toISOString().slice(0, 10),
+    from: options.from,
+    to: options.to,
+    breaking: entries.filter((e) => e.breaking),
+    groups,
+  };
+}
+
+// Rewrite every group's commit subjects into short release-note prose.
+// Groups keep their plain entries when the model call fails.
+export async function rewriteChangelogWithAI(
+  changelog: Changelog,
+  options: { provider: string; model?: string; cache?: boolean }
+): Promise<Changelog> {
+  const model = await getAIModel(options.provider, options.model);
+
+  const groups: ChangelogGroup[] = [];
+  for (const group of changelog.groups) {
+    const commitLines = group.scopes
+      .flatMap(({ scope, entries }) =>
+        entries.map((e) => `- ${scope ? `${scope}: ` : ""}${e.subject}`)
+      )
+      .join("\n");
+
+    const prompt = `You are writing release notes for the "${group.label}" section of a changelog.
+Rewrite the commit subjects below into concise, user-facing Markdown bullet points.
+Merge duplicates, keep scopes as **bold** prefixes where useful, and do not invent changes.
+Return *only* the bullet points.
+
+${commitLines}
+`;
+
+    try {
+      const { value: prose } = await withCache(
+        {
+          provider: options.provider,
+          model: options.model,
+          temperature: 0.2,
+          prompt,
+        },
+        options.cache,
+        async () => {
+          const res = await generateText({
+            model,
+            prompt,
+            temperature: 0.2,
+            maxTokens: 400,
+          });
+          return ((res as any)?.text ?? "").trim() as string;
+        }
+      );
+      groups.push(prose ? { ...group, prose } : group);
+    } catch (err) {
+      groups.push(group);
+    }
+  }
+
+  return { ...changelog, groups };
+}
+
+function renderEntry(entry: ChangelogEntry): string {
+  return `- ${entry.subject} (${entry.hash.slice(0, 7)})`;
+}
+
+export function renderChangelogMarkdown(changelog: Changelog): string {
+  const heading =
+    changelog.release === "Unreleased"
+      ? "## [Unreleased]"
+      : `## [${changelog.release}] - ${changelog.date}`;
+  const lines: string[] = [heading, ""];
+
+  if (changelog.breaking.length) {
+    lines.push("### Breaking Changes", "");
+    for (const entry of changelog.breaking) {
+      const scope = entry.scope ? `**${entry.scope}:** ` : "";
+      lines.push(`- ${scope}${entry.subject} (${entry.hash.slice(0, 7)})`);
+    }
+    lines.push("");
+  }
+
+  for (const group of changelog.groups) {
+    lines.push(`### ${group.label}`, "");
+
+    if (group.prose) {
+      lines.push(group.prose, "");
+      continue;
+    }
+
+    for (const { scope, entries } of group.scopes) {
+      if (!scope) {
+        lines.push(...entries.map(renderEntry));
+      } else if (entries.length === 1) {
+        lines.push(`- **${scope}:** ${renderEntry(entries[0]).slice(2)}`);
+      } else {
+        lines.push(`- **${scope}:**`);
+        lines.push(...entries.map((e) => `  ${renderEntry(e)}`));
+      }
+    }
+    lines.push("");
+  }
+
+  if (!changelog.groups.length && !changelog.breaking.length) {
+    lines.push("No changes.", "");
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+// Insert a rendered release above the previous releases in a Keep-a-Changelog
+// file, creating the file (with its standard header) if needed.
+export function prependToChangelogFile(path: string, release: string): void {
+  const existing = existsSync(path) ? readFileSync(path, "utf-8") : "";
+
+  if (!existing.trim()) {
+    writeFileSync(path, `${CHANGELOG_HEADER}\n${release}`);
+    return;
+  }
+
+  const firstRelease = existing.search(/^## /m);
+  if (firstRelease === -1) {
+    writeFileSync(path, `${existing.trimEnd()}\n\n${release}`);
+    return;
+  }
+
+  writeFileSync(
+    path,
+    `${existing.slice(0, firstRelease)}${release}\n${existing.slice(
+      firstRelease
+    )}`
+  );
+}
@@ -1,26 +1,32 @@
 import { generateText } from "ai";
 import type { GitChanges, CommitMessageOptions } from "./types.js";
 import { getAIModel } from "./models.js";
-import { formatCommitMessage, ensureConventionalCommit } from "./utils.js";
+import { packChangesForModel } from "./diff-packer.js";
+import { withCache } from "./cache.js";
+import {
+  formatCommitMessage,
+  ensureConventionalCommit,
+  formatFullCommitMessage,
+  splitCommitMessage,
+  buildCommitMessage,
+  wrapText,
+} from "./utils.js";
 
 export async function generateConventionalCommitMessage(
   changes: GitChanges,
   options: CommitMessageOptions
 ): Promise<string> {
   const model = await getAIModel(options.provider, options.model);
-  const maxFiles = options.maxFiles ?? 20;
-  const maxDiffLines = options.maxDiffLines ?? 500;
-
-  const fileSummaries = changes.files
-    .slice(0, maxFiles)
-    .map((f) => {
-      const patch = f.patch
-        ? f.patch.slice(0, maxDiffLines) +
-          (f.patch.length > maxDiffLines ? "..." : "")
-        : "";
-      return `FILE: ${f.path} STATUS: ${f.status} +${f.additions} -${f.deletions}\n${patch}`;
-    })
-    .join("\n\n");
+  const packed = packChangesForModel(changes, {
+    provider: options.provider,
+    model: options.model,
+    maxFiles: options.maxFiles ?? 20,
+    tokenBudget: options.tokenBudget,
+  });
+  const fileSummaries = packed.text;
+  const scopesRule = options.scopes?.length
+    ? `Scope, if any, *must* be one of: ${options.scopes.join(", ")}`
+    : "";
 
   function buildPrompt(
     changes: GitChanges,
@@ -29,8 +35,8 @@ export async function generateConventionalCommitMessage(
   ): string {
     const gitDataSection = `
 ## Git Context
-**Base Branch:** ${changes.baseBranch}  
-**Current Branch:** ${changes.currentBranch}  
+**Base:** ${changes.baseRef}  
+**Head:** ${changes.headRef}  
 **Files Changed:** ${changes.files.length}  
 **Insertions:** ${changes.stats.insertions}  
 **Deletions:** ${changes.stats.deletions}  
@@ -53,18 +59,15 @@ Do *not* include any emojis.
 Do *not* include any labels like "This is a suggested commit message" — just the commit message
 Do *not* include any labels like "Unfortunately, I don't see any staged git diff output in your question. However, I can guide you on how to generate a Conventional Commit message based on common practices." just the commit message
 
-Return *only* the commit line.
+${options.body ? "Return *only* the commit message." : "Return *only* the commit line."}
 `;
 
     const basePrompt = `You are an expert software engineer. Based on the staged git diff, generate a SINGLE Conventional Commit message.
 Rules:
-- Use format: <type>(<optional scope>): <short imperative summary>
-- type *must* be one of: feat, fix, docs, style, refactor, perf, test, chore, build, ci
-- Summary *must* be <= 72 characters
-- Do NOT include body or footer; ONLY the first line
-- No trailing period
+${options.body ? fullMessageRules : headerOnlyRules}
 - Be precise and specific.
-${options.typeHint ? `Preferred type (hint): ${options.typeHint}` : ""}`;
+${options.typeHint ? `Preferred type (hint): ${options.typeHint}` : ""}
+${scopesRule}`;
 
     return `
 Git Changes: ${gitDataSection}
@@ -74,62 +77,119 @@ Final Instruction: ${finalAiInstructionForCommit}
   }
 
   const prompt = buildPrompt(changes, options, fileSummaries);
+  const maxTokens = options.body ? 400 : 80;
+  const complete = async (prompt: string, temperature: number) => {
+    const res = await generateText({ model, prompt, temperature, maxTokens });
+    return (
+      (res as any)?.text ??
+      (res as any)?.output?.[0]?.content ??
+      (res as any)?.choices?.[0]?.text ??
+      ""
+    );
+  };
 
   // refine
   if (options.refineFrom) {
-    const prev = formatCommitMessage(options.refineFrom);
+    const prev = options.body
+      ? formatFullCommitMessage(options.refineFrom)
+      : formatCommitMessage(options.refineFrom);
     const refinePrompt = `Previous commit suggestion: "${prev}"
 
-Based on the staged git diff below, improve or correct the suggestion so it strictly follows Conventional Commits and accurately reflects the changes. Return ONLY the corrected commit line (no explanation):
+Based on the staged git diff below, improve or correct the suggestion so it strictly follows Conventional Commits and accurately reflects the changes. Return ONLY the corrected commit ${options.body ? "message" : "line"} (no explanation):
 
 <diff>
 ${fileSummaries}
 </diff>
 
 Rules:
-- Use format: <type>(<optional scope>): <short imperative summary>
-- type must be one of: feat, fix, docs, style, refactor, perf, test, chore, build, ci
-- Summary must be <= 72 characters
-- No trailing period
-- Return only the first line (no body or footer)
+${options.body ? fullMessageRules : headerOnlyRules}
 ${options.typeHint ? `Preferred type (hint): ${options.typeHint}` : ""}
+${scopesRule}
 `;
 
     try {
-      const res = await generateText({
-        model,
-        prompt: refinePrompt,
-        temperature: 0.15,
-        maxTokens: 80,
-      });
-      const refinedRaw =
-        (res as any)?.text ??
-        (res as any)?.output?.[0]?.content ??
-        (res as any)?.choices?.[0]?.text ??
-        "";
-      const cleaned = formatCommitMessage(refinedRaw || prev);
-      return ensureConventionalCommit(cleaned, options.typeHint);
+      const { value: refinedRaw } = await withCache(
+        {
+          provider: options.provider,
+          model: options.model,
+          temperature: 0.15,
+          prompt: refinePrompt,
+        },
+        options.cache,
+        () => complete(refinePrompt, 0.15)
+      );
+      return finalizeCommitMessage(refinedRaw || prev, options);
     } catch (err) {
       // just return the previous
-      return ensureConventionalCommit(prev, options.typeHint);
+      return finalizeCommitMessage(prev, options);
     }
   }
 
   try {
-    const res = await generateText({
-      model,
-      prompt,
-      temperature: 0.3,
-      maxTokens: 80,
-    });
-    const raw =
-      (res as any)?.text ??
-      (res as any)?.output?.[0]?.content ??
-      (res as any)?.choices?.[0]?.text ??
-      "";
-    const cleaned = formatCommitMessage(raw);
-    return ensureConventionalCommit(cleaned, options.typeHint);
+    const { value: raw } = await withCache(
+      {
+        provider: options.provider,
+        model: options.model,
+        temperature: 0.3,
+        prompt,
+      },
+      options.cache,
+      () => complete(prompt, 0.3)
+    );
+    return finalizeCommitMessage(raw, options);
   } catch (err) {
     throw err;
   }
 }
+
+const headerOnlyRules = `- Use format: <type>(<optional scope>): <short imperative summary>
+- type *must* be one of: feat, fix, docs, style, refactor, perf, test, chore, build, ci
+- Summary *must* be <= 72 characters
+- Do NOT include body or footer; ONLY the first line
+- No trailing period`;
+
+const fullMessageRules = `- First line: <type>(<optional scope>): <short imperative summary>
+- type *must* be one of: feat, fix, docs, style, refactor, perf, test, chore, build, ci
+- Summary *must* be <= 72 characters, no trailing period
+- Then a blank line and a body of 1-3 short paragraphs explaining WHY the change was made and what it affects (not a list of files), wrapped at 72 characters
+- If the change breaks existing behavior or APIs, add "!" before the colon and end with a footer line: BREAKING CHANGE: <what breaks and how to migrate>
+- Do NOT add any other footers`;
+
+// Clean up the model output: a single conventional header, or (in body mode)
+// header + wrapped body + footers. The footers requested on the CLI (and
+// --breaking's "!") apply in both modes.
+function finalizeCommitMessage(
+  raw: string,
+  options: CommitMessageOptions
+): string {
+  const parts = options.body
+    ? splitCommitMessage(formatFullCommitMessage(raw))
+    : { header: raw, body: "", footers: [] as string[] };
+  let header = ensureConventionalCommit(
+    formatCommitMessage(parts.header),
+    options.typeHint
+  );
+
+  const footers = parts.footers.filter(
+    (f) => !/^BREAKING[ -]CHANGE:/.test(f) || !options.breaking
+  );
+  if (options.breaking) {
+    footers.unshift(`BREAKING CHANGE: ${options.breaking}`);
+  }
+  for (const footer of options.footers ?? []) {
+    if (!footers.includes(footer)) footers.push(footer);
+  }
+
+  if (
+    footers.some((f) => /^BREAKING[ -]CHANGE:/.test(f)) &&
+    !/^[^:]*!:/.test(header)
+  ) {
+    header = header.replace(/:/, "!:");
+  }
+
+  return buildCommitMessage({
+    header,
+    body: parts.body ? wrapText(parts.body, 72) : "",
+    footers,
+  });
+}
@@ -1,7 +1,31 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { join } from "path";
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  chmodSync,
+} from "fs";
+import { join, dirname, resolve } from "path";
 import { homedir } from "os";
+import { z } from "zod";
 import { maskApiKey } from "./utils.js";
+import {
+  PASSPHRASE_ENV,
+  getEncryptedStore,
+  hasEncryptedStore,
+  resolveApiKey,
+} from "./credentials.js";
+import type {
+  UserProviderConfig,
+  GitHubConfig,
+  GitLabConfig,
+  CacheConfig,
+  RedactConfig,
+  IssuesConfig,
+  ResolvedSettings,
+  SettingSource,
+} from "./types.js";
+import { CredentialStoreError } from "./types.js";
 
 const CONFIG_DIR = join(homedir(), ".pr-desc");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
@@ -10,9 +34,20 @@ export interface Config {
   defaultProvider?: string;
   defaultTemplate?: string;
   defaultBaseBranch?: string;
+  defaultModel?: string;
+  maxFiles?: number;
+  commitScopes?: string[];
   apiKeys?: {
-    groq?: string;
+    [provider: string]: string | undefined;
   };
+  providers?: {
+    [name: string]: UserProviderConfig;
+  };
+  github?: GitHubConfig;
+  gitlab?: GitLabConfig;
+  cache?: CacheConfig;
+  redact?: RedactConfig;
+  issues?: IssuesConfig;
 }
 
 export function loadConfig(unmask?: boolean): Config {
@@ -30,7 +65,18 @@ export function loadConfig(unmask?: boolean): Config {
     userConfig.apiKeys = Object.fromEntries(
       Object.entries(userConfig.apiKeys).map(([key, value]) => [
         key,
-        maskApiKey(value),
+        value ? maskApiKey(value) : value,
+      ])
+    );
+  }
+
+  if (userConfig.providers && !unmask) {
+    userConfig.providers = Object.fromEntries(
+      Object.entries(userConfig.providers).map(([name, provider]) => [
+        name,
+        provider.apiKey
+          ? { ...provider, apiKey: maskApiKey(provider.apiKey) }
+          : provider,
       ])
     );
   }
@@ -42,29 +88,270 @@ export function saveConfig(config: Config): void {
     mkdirSync(CONFIG_DIR, { recursive: true });
   }
 
-  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+  // may still hold plain-text keys until `config migrate-secrets` is run
+  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), { mode: 0o600 });
+  chmodSync(CONFIG_FILE, 0o600);
 }
 
+// Env vars, then the encrypted store, then (legacy) plain-text keys in
+// config.json.
 export function getApiKey(provider: string): string | undefined {
-  const config = loadConfig(true);
+  const resolved = resolveApiKey(provider);
+  if (resolved) return resolved.apiKey;
 
-  switch (provider) {
-    case "groq":
-      return config.apiKeys?.groq;
-    default:
-      return undefined;
-  }
+  const config = loadConfig(true);
+  return config.apiKeys?.[provider];
 }
 
 export function setApiKey(provider: string, apiKey: string): void {
-  const config = loadConfig();
+  const config = loadConfig(true);
+  const store = getEncryptedStore();
+
+  if (store?.set) {
+    store.set(provider, apiKey);
+    if (config.apiKeys?.[provider]) {
+      delete config.apiKeys[provider];
+      saveConfig(config);
+    }
+    console.log(`✅ API key for ${provider} saved to the encrypted store`);
+    return;
+  }
+  // never put a key next to an encrypted store in plain text
+  if (hasEncryptedStore()) {
+    throw new CredentialStoreError(
+      `The credential store is locked. Enter its passphrase or set ${PASSPHRASE_ENV} to save the API key for ${provider}.`
+    );
+  }
 
   if (!config.apiKeys) {
     config.apiKeys = {};
   }
 
-  config.apiKeys[provider as keyof typeof config.apiKeys] = apiKey;
+  config.apiKeys[provider] = apiKey;
   saveConfig(config);
 
   console.log(`✅ API key for ${provider} saved to global config`);
+  console.log(
+    "   Run `pr-desc config migrate-secrets` to move it into the encrypted store"
+  );
+}
+
+// Move plain-text keys (apiKeys and inline provider keys) out of config.json
+// into the unlocked encrypted store. Returns the providers that were moved.
+export function migrateSecrets(): string[] {
+  const store = getEncryptedStore();
+  if (!store?.set) {
+    throw new Error("The encrypted credential store is not unlocked.");
+  }
+
+  const config = loadConfig(true);
+  const migrated: string[] = [];
+  const move = (provider: string, apiKey?: string) => {
+    // keys already in the store are the ones in effect; keep them
+    if (!apiKey || store.get(provider)) return;
+    store.set!(provider, apiKey);
+    migrated.push(provider);
+  };
+
+  for (const [provider, apiKey] of Object.entries(config.apiKeys || {})) {
+    move(provider, apiKey);
+  }
+  delete config.apiKeys;
+
+  for (const [name, provider] of Object.entries(config.providers || {})) {
+    move(name, provider.apiKey);
+    delete provider.apiKey;
+  }
+
+  saveConfig(config);
+  return migrated;
+}
+
+const REPO_CONFIG_FILE = ".prdescrc.json";
+const PACKAGE_JSON_KEY = "pr-desc";
+
+// Settings a repository may pin. Secrets (apiKeys, providers) stay in the
+// global config so they never end up committed.
+const RepoConfigSchema = z
+  .object({
+    defaultProvider: z.string().min(1).optional(),
+    defaultModel: z.string().min(1).optional(),
+    defaultTemplate: z.string().min(1).optional(),
+    defaultBaseBranch: z.string().min(1).optional(),
+    maxFiles: z.number().int().positive().optional(),
+    commitScopes: z.array(z.string().min(1)).optional(),
+    // name -> Markdown file, relative to this config file
+    templates: z.record(z.string().min(1)).optional(),
+    // issue trackers are per project, so their patterns and links may be too
+    issues: z
+      .object({
+        patterns: z.record(z.string().min(1)).optional(),
+        urls: z.record(z.string().min(1)).optional(),
+        disable: z.array(z.string()).optional(),
+        jiraProjects: z.array(z.string().regex(/^[A-Z][A-Z0-9]+$/)).optional(),
+        closeBranchNumber: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type RepoConfig = z.infer<typeof RepoConfigSchema>;
+
+export interface LoadedRepoConfig {
+  path: string;
+  config: RepoConfig;
+}
+
+// Walk up from `startDir` to the repository root looking for .prdescrc.json
+// or a "pr-desc" key in package.json. The closest one wins.
+export function findRepoConfig(
+  startDir = process.cwd()
+): LoadedRepoConfig | null {
+  let dir = resolve(startDir);
+
+  while (true) {
+    const rcPath = join(dir, REPO_CONFIG_FILE);
+    if (existsSync(rcPath)) {
+      return {
+        path: rcPath,
+        config: parseRepoConfig(rcPath, readJson(rcPath)),
+      };
+    }
+
+    const pkgPath = join(dir, "package.json");
+    if (existsSync(pkgPath)) {
+      const pkg = readJson(pkgPath);
+      if (pkg && typeof pkg === "object" && PACKAGE_JSON_KEY in pkg) {
+        return {
+          path: `${pkgPath}#${PACKAGE_JSON_KEY}`,
+          config: parseRepoConfig(pkgPath, (pkg as any)[PACKAGE_JSON_KEY]),
+        };
+      }
+    }
+
+    const parent = dirname(dir);
+    if (existsSync(join(dir, ".git")) || parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Could not parse ${path}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+function parseRepoConfig(path: string, value: unknown): RepoConfig {
+  const result = RepoConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(
+        (issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`
+      )
+      .join("\n");
+    throw new Error(`Invalid pr-desc config in ${path}:\n${issues}`);
+  }
+  return result.data;
+}
+
+// Environment variables that override the repo and global config.
+const ENV_VARS: Record<keyof ResolvedSettings, string> = {
+  provider: "PR_DESC_PROVIDER",
+  model: "PR_DESC_MODEL",
+  template: "PR_DESC_TEMPLATE",
+  baseBranch: "PR_DESC_BASE_BRANCH",
+  maxFiles: "PR_DESC_MAX_FILES",
+  commitScopes: "PR_DESC_COMMIT_SCOPES",
+};
+
+const DEFAULT_SETTINGS: ResolvedSettings = {
+  provider: "groq",
+  template: "standard",
+  baseBranch: "main",
+  maxFiles: 20,
+};
+
+function fromConfigFile(
+  config: Config | RepoConfig
+): Partial<ResolvedSettings> {
+  return {
+    provider: config.defaultProvider,
+    model: config.defaultModel,
+    template: config.defaultTemplate,
+    baseBranch: config.defaultBaseBranch,
+    maxFiles: config.maxFiles,
+    commitScopes: config.commitScopes,
+  };
+}
+
+function fromEnv(): Partial<ResolvedSettings> {
+  const env = process.env;
+  const maxFiles = Number.parseInt(env[ENV_VARS.maxFiles] || "", 10);
+  return {
+    provider: env[ENV_VARS.provider] || undefined,
+    model: env[ENV_VARS.model] || undefined,
+    template: env[ENV_VARS.template] || undefined,
+    baseBranch: env[ENV_VARS.baseBranch] || undefined,
+    maxFiles: maxFiles > 0 ? maxFiles : undefined,
+    commitScopes: env[ENV_VARS.commitScopes]
+      ? env[ENV_VARS.commitScopes]!.split(",")
+          .map((scope) => scope.trim())
+          .filter(Boolean)
+      : undefined,
+  };
+}
+
+export interface SettingsResolution {
+  settings: ResolvedSettings;
+  sources: Record<keyof ResolvedSettings, SettingSource>;
+  repoConfigPath?: string;
+}
+
+// Merge settings in order of precedence: CLI flags, env vars, repo config,
+// the repo's PR template, global config, built-in defaults. Also records
+// where each value came from.
+export function resolveSettings(
+  cli: Partial<ResolvedSettings> = {},
+  options: { repoPath?: string; repoTemplate?: string } = {}
+): SettingsResolution {
+  const repoConfig = findRepoConfig(options.repoPath);
+  const layers: [SettingSource, Partial<ResolvedSettings>][] = [
+    ["cli", cli],
+    ["env", fromEnv()],
+    ["repo", repoConfig ? fromConfigFile(repoConfig.config) : {}],
+    // the repository's own PR template (see getRepoDefaultTemplate) beats
+    // the global default
+    ["repo", { template: options.repoTemplate }],
+    ["global", fromConfigFile(loadConfig())],
+    ["default", DEFAULT_SETTINGS],
+  ];
+
+  const settings = {} as ResolvedSettings;
+  const sources = {} as Record<keyof ResolvedSettings, SettingSource>;
+  for (const key of Object.keys(ENV_VARS) as (keyof ResolvedSettings)[]) {
+    for (const [source, layer] of layers) {
+      if (layer[key] !== undefined && layer[key] !== "") {
+        (settings as any)[key] = layer[key];
+        sources[key] = source;
+        break;
+      }
+    }
+  }
+
+  // A model only makes sense for the provider it was configured with
+  const rank = (source: SettingSource) =>
+    layers.findIndex(([name]) => name === source);
+  if (settings.model && rank(sources.model) > rank(sources.provider)) {
+    delete settings.model;
+    delete (sources as Partial<typeof sources>).model;
+  }
+
+  return { settings, sources, repoConfigPath: repoConfig?.path };
 }
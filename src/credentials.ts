@@ -0,0 +1,200 @@
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import { CredentialStoreError, type CredentialStore } from "./types.js";
+
+const CREDENTIALS_DIR = join(homedir(), ".pr-desc");
+const CREDENTIALS_FILE = join(CREDENTIALS_DIR, "credentials.enc");
+export const PASSPHRASE_ENV = "PR_DESC_PASSPHRASE";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+
+interface EncryptedPayload {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// GROQ_API_KEY, MY_VLLM_API_KEY for "my-vllm", ...
+export function getApiKeyEnvVar(provider: string): string {
+  return `${provider.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}_API_KEY`;
+}
+
+// Read-only: keys exported in the shell (CI, direnv, ...). Env var names
+// lose dashes and case, so list() maps them back through `providers`
+// (MY_LLM_API_KEY -> "my-llm") and lowercases the rest.
+export function createEnvCredentialStore(
+  providers: string[] = []
+): CredentialStore {
+  const names = new Map(
+    providers.map((provider) => [getApiKeyEnvVar(provider), provider])
+  );
+  return {
+    name: "environment",
+    get: (provider) => process.env[getApiKeyEnvVar(provider)] || undefined,
+    list: () =>
+      Object.keys(process.env)
+        .filter((key) => key.endsWith("_API_KEY") && process.env[key])
+        .map(
+          (key) =>
+            names.get(key) ?? key.slice(0, -"_API_KEY".length).toLowerCase()
+        ),
+  };
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, KEY_LENGTH);
+}
+
+function encrypt(
+  secrets: Record<string, string>,
+  passphrase: string
+): EncryptedPayload {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), "utf-8"),
+    cipher.final(),
+  ]);
+
+  return {
+    version: 1,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function decrypt(
+  payload: EncryptedPayload,
+  passphrase: string
+): Record<string, string> {
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      deriveKey(passphrase, Buffer.from(payload.salt, "base64")),
+      Buffer.from(payload.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+    const plain = Buffer.concat([
+      decipher.update(Buffer.from(payload.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plain.toString("utf-8"));
+  } catch (error) {
+    throw new CredentialStoreError(
+      "Could not decrypt the credential store: wrong passphrase or corrupted file."
+    );
+  }
+}
+
+// AES-256-GCM encrypted JSON map of provider -> API key. The file is
+// created with 0600 permissions; the passphrase never touches the disk.
+export function createEncryptedFileCredentialStore(
+  passphrase: string,
+  path = CREDENTIALS_FILE
+): CredentialStore {
+  let secrets: Record<string, string> = {};
+  if (existsSync(path)) {
+    let payload: EncryptedPayload;
+    try {
+      payload = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (error) {
+      throw new CredentialStoreError(`Could not parse ${path}`);
+    }
+    secrets = decrypt(payload, passphrase);
+  }
+
+  const persist = () => {
+    mkdirSync(CREDENTIALS_DIR, { recursive: true, mode: 0o700 });
+    writeFileSync(path, JSON.stringify(encrypt(secrets, passphrase), null, 2), {
+      mode: 0o600,
+    });
+    // writeFileSync only applies the mode when it creates the file
+    chmodSync(path, 0o600);
+  };
+
+  return {
+    name: "encrypted file",
+    get: (provider) => secrets[provider],
+    set: (provider, apiKey) => {
+      secrets[provider] = apiKey;
+      persist();
+    },
+    delete: (provider) => {
+      delete secrets[provider];
+      persist();
+    },
+    list: () => Object.keys(secrets),
+  };
+}
+
+let encryptedStore: CredentialStore | undefined;
+let envPassphraseFailed = false;
+
+export function hasEncryptedStore(): boolean {
+  return existsSync(CREDENTIALS_FILE);
+}
+
+// Open (or create) the encrypted store for the rest of the process.
+// Throws CredentialStoreError on a wrong passphrase.
+export function unlockCredentialStore(passphrase: string): CredentialStore {
+  encryptedStore = createEncryptedFileCredentialStore(passphrase);
+  return encryptedStore;
+}
+
+// The encrypted store if it's open, unlocking it from PR_DESC_PASSPHRASE
+// when possible. A wrong passphrase in the env is reported, not thrown, so a
+// bad env var can't take down commands that don't need a key.
+export function getEncryptedStore(): CredentialStore | undefined {
+  if (!encryptedStore && process.env[PASSPHRASE_ENV] && !envPassphraseFailed) {
+    try {
+      unlockCredentialStore(process.env[PASSPHRASE_ENV]!);
+    } catch (error) {
+      envPassphraseFailed = true;
+      console.warn(
+        `Warning: ${PASSPHRASE_ENV} did not unlock the credential store`
+      );
+    }
+  }
+  return encryptedStore;
+}
+
+// Stores in lookup order: environment first, then the encrypted file.
+export function getCredentialStores(
+  providers: string[] = []
+): CredentialStore[] {
+  const stores = [createEnvCredentialStore(providers)];
+  const encrypted = getEncryptedStore();
+  if (encrypted) stores.push(encrypted);
+  return stores;
+}
+
+export function resolveApiKey(
+  provider: string
+): { apiKey: string; store: string } | undefined {
+  for (const store of getCredentialStores()) {
+    const apiKey = store.get(provider);
+    if (apiKey) return { apiKey, store: store.name };
+  }
+  return undefined;
+}
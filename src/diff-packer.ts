@@ -0,0 +1,381 @@
+import type {
+  FileChange,
+  GitChanges,
+  PackedDiff,
+  PackedFile,
+} from "./types.js";
+import { getDefaultModel, getProviderConfig } from "./models.js";
+import { describeFileStatus } from "./utils.js";
+
+// Rough characters-per-token ratios for the tokenizer families we talk to.
+// These are deliberately conservative so the estimate errs on the high side.
+const TOKENIZER_PROFILES: { match: RegExp; charsPerToken: number }[] = [
+  { match: /llama|codellama/i, charsPerToken: 3.5 },
+  { match: /qwen|deepseek/i, charsPerToken: 3.2 },
+  { match: /gemma|codegemma/i, charsPerToken: 3.6 },
+  { match: /mixtral|mistral/i, charsPerToken: 3.3 },
+  { match: /gpt|compound/i, charsPerToken: 3.8 },
+];
+const DEFAULT_CHARS_PER_TOKEN = 3.2;
+
+// Known context windows. Ollama serves every model with a small default
+// context unless told otherwise, so `local` gets its own fallback.
+const CONTEXT_WINDOWS: { match: RegExp; tokens: number }[] = [
+  { match: /8192$/, tokens: 8192 },
+  { match: /4k/i, tokens: 4096 },
+  { match: /gemma2/i, tokens: 8192 },
+  { match: /qwen/i, tokens: 32768 },
+  {
+    match: /llama-3\.[13]|llama-4|gpt-oss|compound|deepseek-r1/i,
+    tokens: 131072,
+  },
+];
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const LOCAL_CONTEXT_WINDOW = 4096;
+
+// Tokens kept free for the prompt template, commit list and model output.
+const PROMPT_RESERVE_TOKENS = 1500;
+const OUTPUT_RESERVE_TOKENS = 800;
+// Upper bound for the diff itself, to stay under provider rate limits.
+const MAX_DIFF_TOKENS = 8000;
+const MIN_DIFF_TOKENS = 1000;
+
+export interface TokenBudgetOptions {
+  provider: string;
+  model?: string;
+  contextWindow?: number;
+  tokenBudget?: number;
+}
+
+export interface PackDiffOptions {
+  model?: string;
+  budget: number;
+  maxFiles?: number; // max files that may carry patch content
+}
+
+export function estimateTokens(text: string, model?: string): number {
+  const profile = TOKENIZER_PROFILES.find((p) => model && p.match.test(model));
+  const charsPerToken = profile?.charsPerToken ?? DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil(text.length / charsPerToken);
+}
+
+export function getContextWindow(provider: string, model?: string): number {
+  if (provider === "local") return LOCAL_CONTEXT_WINDOW;
+  const known = CONTEXT_WINDOWS.find((w) => model && w.match.test(model));
+  return known?.tokens ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+// Work out how many tokens of diff we can afford for this provider/model.
+export function resolveTokenBudget(options: TokenBudgetOptions): number {
+  if (options.tokenBudget && options.tokenBudget > 0) {
+    return options.tokenBudget;
+  }
+
+  const contextWindow =
+    options.contextWindow ?? getContextWindow(options.provider, options.model);
+  const available =
+    contextWindow - PROMPT_RESERVE_TOKENS - OUTPUT_RESERVE_TOKENS;
+
+  return Math.max(MIN_DIFF_TOKENS, Math.min(available, MAX_DIFF_TOKENS));
+}
+
+const LOW_VALUE_PATTERNS = [
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|Cargo\.lock|go\.sum|composer\.lock|Gemfile\.lock|poetry\.lock)$/,
+  /(^|\/)(dist|build|vendor|node_modules|coverage)\//,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /\.snap$/,
+];
+const TEST_PATTERNS = [
+  /(^|\/)(__tests__|tests?|spec)\//,
+  /\.(test|spec)\.[^/]+$/,
+];
+const DOC_PATTERNS = [/\.(md|mdx|txt|rst)$/i, /(^|\/)docs?\//];
+const CONFIG_PATTERNS = [
+  /(^|\/)package\.json$/,
+  /(^|\/)tsconfig[^/]*\.json$/,
+  /\.(ya?ml|toml|ini)$/,
+  /(^|\/)Dockerfile$/,
+];
+
+// Higher score means the file is more useful to the model.
+export function scoreFile(file: FileChange): number {
+  const path = file.path;
+  let score = 10;
+
+  if (LOW_VALUE_PATTERNS.some((p) => p.test(path))) score = 1;
+  else if (TEST_PATTERNS.some((p) => p.test(path))) score = 6;
+  else if (DOC_PATTERNS.some((p) => p.test(path))) score = 5;
+  else if (CONFIG_PATTERNS.some((p) => p.test(path))) score = 7;
+
+  if (file.status === "binary" || !file.patch) score -= 2;
+  if (file.status === "deleted") score -= 1;
+
+  // Bigger changes matter more, but with diminishing returns.
+  return score + Math.log2(file.additions + file.deletions + 1);
+}
+
+export function rankFiles(files: FileChange[]): FileChange[] {
+  return files
+    .map((file, index) => ({ file, index, score: scoreFile(file) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.file);
+}
+
+interface Hunk {
+  prefix: string; // file header or section marker lines preceding the hunk
+  body: string;
+  additions: number;
+  deletions: number;
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/;
+
+// Split a unified diff into hunks, using the line counts in each `@@` header so
+// that content lines starting with `---`/`+++` are never mistaken for headers.
+export function splitHunks(patch: string): Hunk[] {
+  const lines = patch.split("\n");
+  const hunks: Hunk[] = [];
+  let pending: string[] = [];
+  let current: Hunk | null = null;
+  let currentLines: string[] = [];
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  const closeHunk = () => {
+    if (!current) return;
+    current.body = currentLines.join("\n");
+    hunks.push(current);
+    current = null;
+    currentLines = [];
+  };
+
+  for (const line of lines) {
+    if (current && (oldLeft > 0 || newLeft > 0)) {
+      currentLines.push(line);
+      if (line.startsWith("+")) {
+        newLeft--;
+        current.additions++;
+      } else if (line.startsWith("-")) {
+        oldLeft--;
+        current.deletions++;
+      } else if (!line.startsWith("\\")) {
+        oldLeft--;
+        newLeft--;
+      }
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      closeHunk();
+      current = {
+        prefix: pending.join("\n"),
+        body: "",
+        additions: 0,
+        deletions: 0,
+      };
+      pending = [];
+      currentLines = [line];
+      oldLeft = header[1] === undefined ? 1 : Number(header[1]);
+      newLeft = header[2] === undefined ? 1 : Number(header[2]);
+      continue;
+    }
+
+    if (current && line.startsWith("\\")) {
+      // "\ No newline at end of file" belongs to the hunk that just ended
+      currentLines.push(line);
+      continue;
+    }
+
+    closeHunk();
+    pending.push(line);
+  }
+
+  closeHunk();
+  return hunks;
+}
+
+function fileHeader(file: FileChange): string {
+  return `FILE: ${file.path} STATUS: ${describeFileStatus(file)} +${file.additions} -${file.deletions}`;
+}
+
+function fileSummaryLine(file: FileChange): string {
+  return `- ${file.path} (${describeFileStatus(file)}, +${file.additions} -${file.deletions})`;
+}
+
+// The "also changed" list for .prdescignore'd files, if there are any.
+export function describeIgnoredFiles(files: FileChange[]): string | undefined {
+  const ignored = files.filter((f) => f.ignored);
+  if (!ignored.length) return undefined;
+  return `Also changed (diff not included):\n${ignored
+    .map(fileSummaryLine)
+    .join("\n")}`;
+}
+
+// Fit as many hunks of the patch as possible into `budget` tokens, keeping
+// hunks whole. Returns null when not even one hunk fits.
+function trimPatch(
+  patch: string,
+  budget: number,
+  model?: string
+): { text: string; omittedHunks: number } | null {
+  const hunks = splitHunks(patch);
+  const kept: string[] = [];
+  let used = 0;
+  let carriedPrefix = "";
+  let omitted = 0;
+  let omittedAdditions = 0;
+  let omittedDeletions = 0;
+
+  for (const hunk of hunks) {
+    const prefix = [carriedPrefix, hunk.prefix].filter(Boolean).join("\n");
+    const text = [prefix, hunk.body].filter(Boolean).join("\n");
+    const cost = estimateTokens(text, model);
+
+    if (used + cost <= budget) {
+      kept.push(text);
+      used += cost;
+      carriedPrefix = "";
+    } else {
+      // keep file/section headers for any later hunk that still fits
+      carriedPrefix = prefix;
+      omitted++;
+      omittedAdditions += hunk.additions;
+      omittedDeletions += hunk.deletions;
+    }
+  }
+
+  if (!kept.length) return null;
+  if (omitted) {
+    kept.push(
+      `... ${omitted} more hunk${omitted === 1 ? "" : "s"} omitted (+${omittedAdditions} -${omittedDeletions})`
+    );
+  }
+  return { text: kept.join("\n"), omittedHunks: omitted };
+}
+
+// Pack the change set into a token budget. Files are ranked by importance and
+// included whole when they fit, trimmed at hunk boundaries when they don't,
+// and collapsed into one-line summaries once the budget is spent. Ignored
+// files are only ever listed by name.
+export function packDiff(
+  files: FileChange[],
+  options: PackDiffOptions
+): PackedDiff {
+  const { model, budget } = options;
+  const maxFiles = options.maxFiles ?? Infinity;
+  // .prdescignore'd files never carry a patch, only their summary line
+  const ignored = files.filter((f) => f.ignored);
+  const ranked = rankFiles(files.filter((f) => !f.ignored));
+
+  // Every file costs at least its summary line, so set that aside first.
+  const summaryCost = files.reduce(
+    (sum, f) => sum + estimateTokens(fileSummaryLine(f) + "\n", model),
+    0
+  );
+  let remaining = budget - summaryCost;
+
+  const packed: PackedFile[] = [];
+  const sections: string[] = [];
+  const summarized: FileChange[] = [];
+
+  for (const file of ranked) {
+    const header = fileHeader(file);
+    const withPatch = packed.length < maxFiles && file.patch;
+    // the summary line is replaced by the header, so its cost comes back
+    const available =
+      remaining + estimateTokens(fileSummaryLine(file) + "\n", model);
+    const headerCost = estimateTokens(header + "\n", model);
+
+    if (!withPatch || available - headerCost <= 0) {
+      summarized.push(file);
+      continue;
+    }
+
+    const patchCost = estimateTokens(file.patch as string, model);
+    if (headerCost + patchCost <= available) {
+      sections.push(`${header}\n${file.patch}`);
+      packed.push({ path: file.path, mode: "full" });
+      remaining = available - headerCost - patchCost;
+      continue;
+    }
+
+    const trimmed = trimPatch(
+      file.patch as string,
+      available - headerCost,
+      model
+    );
+    if (!trimmed) {
+      summarized.push(file);
+      continue;
+    }
+
+    sections.push(`${header}\n${trimmed.text}`);
+    packed.push({
+      path: file.path,
+      mode: "trimmed",
+      omittedHunks: trimmed.omittedHunks,
+    });
+    remaining = available - headerCost - estimateTokens(trimmed.text, model);
+  }
+
+  if (summarized.length) {
+    sections.push(
+      `Other changed files (diff omitted to fit the context budget):\n${summarized
+        .map(fileSummaryLine)
+        .join("\n")}`
+    );
+    for (const file of summarized) {
+      packed.push({ path: file.path, mode: "summary" });
+    }
+  }
+
+  if (ignored.length) {
+    sections.push(describeIgnoredFiles(ignored) as string);
+    for (const file of ignored) {
+      packed.push({ path: file.path, mode: "ignored" });
+    }
+  }
+
+  const text = sections.join("\n\n");
+  return {
+    text,
+    files: packed,
+    budget,
+    estimatedTokens: estimateTokens(text, model),
+  };
+}
+
+// Resolve the diff budget for a provider from the registry (custom providers
+// may declare their own context window).
+export function getTokenBudgetForModel(options: {
+  provider: string;
+  model?: string;
+  tokenBudget?: number;
+}): number {
+  return resolveTokenBudget({
+    provider: options.provider,
+    model: options.model || getDefaultModel(options.provider),
+    contextWindow: getProviderConfig(options.provider).contextWindow,
+    tokenBudget: options.tokenBudget,
+  });
+}
+
+// Convenience wrapper used by the generators: resolve the budget for the
+// selected provider/model and pack the changes into it.
+export function packChangesForModel(
+  changes: GitChanges,
+  options: {
+    provider: string;
+    model?: string;
+    maxFiles?: number;
+    tokenBudget?: number;
+  }
+): PackedDiff {
+  return packDiff(changes.files, {
+    model: options.model || getDefaultModel(options.provider),
+    budget: getTokenBudgetForModel(options),
+    maxFiles: options.maxFiles,
+  });
+}
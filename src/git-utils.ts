@@ -1,148 +1,92 @@
 import { spawn } from "child_process";
 
-import simpleGit from "simple-git";
+import simpleGit, { type SimpleGit } from "simple-git";
 import type {
   GitChanges,
   FileChange,
   CommitInfo,
   FileStatus,
+  GitStats,
+  GitChangesOptions,
+  PROptions,
 } from "./types.ts";
 import { GhError, GhNeedsPushError } from "./types.js";
-
-const git = simpleGit();
+import { redactPatch } from "./redact.js";
+import { loadIgnoreMatcher } from "./ignore.js";
 
 export async function getGitChanges(
   baseBranch: string,
-  maxFiles: number,
-  mode: "branch" | "staged" = "branch"
+  options: GitChangesOptions = {}
 ): Promise<GitChanges> {
+  const { repoPath, fetch = true, mode = "branch" } = options;
+
   try {
-    await git.fetch();
+    const git = await openRepo(repoPath, fetch);
     const currentBranch = (await git.revparse(["--abbrev-ref", "HEAD"])).trim();
     // mode base
     let diffRangeArg = `${baseBranch}...HEAD`;
-    let log: any = await git.log({
-      from: baseBranch,
-      to: "HEAD",
-      maxCount: 10,
-    });
+    const commits = await getCommits(git, baseBranch, "HEAD");
 
-    const files: FileChange[] = [];
     if (mode === "branch") {
-      const diffSummary = await git.diffSummary([diffRangeArg]);
-      const numstatArgs = ["diff", diffRangeArg, "--numstat"];
-      const numstatOutput = await git.raw(numstatArgs);
-      const numstatMap: Record<
-        string,
-        { additions: number; deletions: number }
-      > = {};
-
-      numstatOutput.split("\n").forEach((line) => {
-        if (!line.trim()) return;
-
-        const [add, del, path] = line.split("\t");
-        numstatMap[path] = {
-          additions: add === "-" ? 0 : parseInt(add, 10),
-          deletions: del === "-" ? 0 : parseInt(del, 10),
-        };
-      });
-
-      const diffFiles = diffSummary.files.slice(0, maxFiles);
-      for (const file of diffFiles) {
-        const stats = numstatMap[file.file] || { additions: 0, deletions: 0 };
-        let patch: string | null = null;
-
-        try {
-          patch = await git.diff([diffRangeArg, "--", file.file]);
-        } catch {
-          patch = null;
-        }
-
-        files.push({
-          path: file.file,
-          status: getFileStatus(stats),
-          additions: stats.additions,
-          deletions: stats.deletions,
-          patch,
-        });
-      }
+      const { files, stats } = await collectFileChanges(git, diffRangeArg);
 
       return {
-        baseBranch,
-        currentBranch,
+        baseRef: baseBranch,
+        headRef: currentBranch,
         files,
-        commits: (log?.all || []).map((commit: any) => ({
-          hash: commit.hash,
-          message: commit.message,
-          author: commit.author_name || "Unknown",
-          date: commit.date,
-        })),
-        stats: {
-          insertions: diffSummary.insertions,
-          deletions: diffSummary.deletions,
-          filesChanged: diffSummary.files.length,
-        },
+        commits,
+        stats,
         mode,
       };
     }
 
-    // mode === "staged" -> merge branch + staged
-    const branchSummary = await git.diffSummary([diffRangeArg]);
-    const stagedSummary = await git.diffSummary(["--cached"]);
-
-    const branchNumstat = await git.raw(["diff", diffRangeArg, "--numstat"]);
-    const stagedNumstat = await git.raw(["diff", "--cached", "--numstat"]);
-
-    const branchMap: Record<string, { additions: number; deletions: number }> =
-      {};
-    branchNumstat.split("\n").forEach((line) => {
-      if (!line.trim()) return;
-      const [add, del, path] = line.split("\t");
-      branchMap[path] = {
-        additions: add === "-" ? 0 : parseInt(add, 10),
-        deletions: del === "-" ? 0 : parseInt(del, 10),
-      };
-    });
+    const files: FileChange[] = [];
+    const isIgnored = await getIgnoreMatcher(git);
 
-    const stagedMap: Record<string, { additions: number; deletions: number }> =
-      {};
-    stagedNumstat.split("\n").forEach((line) => {
-      if (!line.trim()) return;
-      const [add, del, path] = line.split("\t");
-      stagedMap[path] = {
-        additions: add === "-" ? 0 : parseInt(add, 10),
-        deletions: del === "-" ? 0 : parseInt(del, 10),
-      };
-    });
+    // mode === "staged" -> merge branch + staged
+    const branchEntries = await getDiffEntries(git, [diffRangeArg]);
+    const stagedEntries = await getDiffEntries(git, ["--cached"]);
 
-    const branchFiles = (branchSummary.files || []).map((f: any) => f.file);
-    const stagedFiles = (stagedSummary.files || []).map((f: any) => f.file);
+    const branchMap = new Map(branchEntries.map((e) => [e.path, e]));
+    const stagedMap = new Map(stagedEntries.map((e) => [e.path, e]));
     const allFiles = Array.from(
-      new Set([...branchFiles, ...stagedFiles])
-    ).slice(0, maxFiles);
+      new Set([...branchMap.keys(), ...stagedMap.keys()])
+    );
 
     for (const filePath of allFiles) {
-      const b = branchMap[filePath] || { additions: 0, deletions: 0 };
-      const s = stagedMap[filePath] || { additions: 0, deletions: 0 };
-      const combined = {
-        additions: (b.additions || 0) + (s.additions || 0),
-        deletions: (b.deletions || 0) + (s.deletions || 0),
-      };
+      const b = branchMap.get(filePath);
+      const s = stagedMap.get(filePath);
+      const combined = mergeDiffEntries(b, s) as DiffEntry;
+
+      if (isIgnored(combined.path)) {
+        files.push(toIgnoredFileChange(combined));
+        continue;
+      }
 
       let committedPatch: string | null = null;
       let stagedPatch: string | null = null;
 
       try {
-        if (branchFiles.includes(filePath)) {
-          committedPatch = await git.diff([diffRangeArg, "--", filePath]);
+        if (b) {
+          committedPatch = await git.diff([
+            diffRangeArg,
+            "-M",
+            "--",
+            ...entryPaths(b),
+          ]);
         }
       } catch {
         committedPatch = null;
       }
 
       try {
-        if (stagedFiles.includes(filePath)) {
-          stagedPatch = await git.diff(["--cached", "--", filePath]);
+        if (s) {
+          stagedPatch = await git.diff([
+            "--cached",
+            "-M",
+            "--",
+            ...entryPaths(s),
+          ]);
         }
       } catch {
         stagedPatch = null;
@@ -158,37 +102,21 @@ export async function getGitChanges(
 
       const patch = parts.length ? parts.join("\n\n") : null;
 
-      files.push({
-        path: filePath,
-        status: getFileStatus(combined),
-        additions: combined.additions,
-        deletions: combined.deletions,
-        patch,
-      });
+      files.push(toFileChange(combined, patch));
     }
 
-    const combinedInsertions =
-      (branchSummary.insertions || 0) + (stagedSummary.insertions || 0);
-    const combinedDeletions =
-      (branchSummary.deletions || 0) + (stagedSummary.deletions || 0);
-    const combinedFilesChanged = Array.from(
-      new Set([...branchFiles, ...stagedFiles])
-    ).length;
+    const branchStats = sumStats(branchEntries);
+    const stagedStats = sumStats(stagedEntries);
 
     return {
-      baseBranch,
-      currentBranch,
+      baseRef: baseBranch,
+      headRef: currentBranch,
       files,
-      commits: (log?.all || []).map((commit: any) => ({
-        hash: commit.hash,
-        message: commit.message,
-        author: commit.author_name || "Unknown",
-        date: commit.date,
-      })),
+      commits,
       stats: {
-        insertions: combinedInsertions,
-        deletions: combinedDeletions,
-        filesChanged: combinedFilesChanged,
+        insertions: branchStats.insertions + stagedStats.insertions,
+        deletions: branchStats.deletions + stagedStats.deletions,
+        filesChanged: allFiles.length,
       },
       mode,
     };
@@ -201,14 +129,345 @@ export async function getGitChanges(
   }
 }
 
-function getFileStatus(file: {
+// Describe an arbitrary revision range, e.g. "v1.0..v1.1" (what b has that
+// a doesn't, diffed tree-to-tree) or "main...feature" (diffed from the merge
+// base, like a PR).
+export async function getRangeChanges(
+  range: string,
+  options: Omit<GitChangesOptions, "mode"> = {}
+): Promise<GitChanges> {
+  const { repoPath, fetch = true } = options;
+  const match = range.match(/^(.+?)(\.{2,3})(.+)$/);
+  if (!match) {
+    throw new Error(
+      `Invalid range "${range}". Use <from>..<to> or <from>...<to>.`
+    );
+  }
+  const [, from, dots, to] = match;
+
+  try {
+    const git = await openRepo(repoPath, fetch);
+    await git.revparse(["--verify", `${from}^{commit}`]);
+    await git.revparse(["--verify", `${to}^{commit}`]);
+
+    const { files, stats } = await collectFileChanges(
+      git,
+      `${from}${dots}${to}`
+    );
+    const commits = await getCommits(git, from, to);
+
+    return {
+      baseRef: from,
+      headRef: to,
+      files,
+      commits,
+      stats,
+      mode: "range",
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to get changes for range ${range}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+// Describe a single commit against its first parent (or the empty tree for
+// a root commit).
+export async function getCommitChanges(
+  sha: string,
+  options: Omit<GitChangesOptions, "mode"> = {}
+): Promise<GitChanges> {
+  const { repoPath, fetch = true } = options;
+
+  try {
+    const git = await openRepo(repoPath, fetch);
+    const hash = (await git.revparse(["--verify", `${sha}^{commit}`])).trim();
+
+    let parent = EMPTY_TREE;
+    try {
+      parent = (await git.revparse(["--verify", `${hash}^1`])).trim();
+    } catch {
+      // root commit, diff against the empty tree
+    }
+
+    const { files, stats } = await collectFileChanges(
+      git,
+      `${parent}..${hash}`
+    );
+    const log: any = await git.log(["-1", hash]);
+
+    return {
+      baseRef: parent === EMPTY_TREE ? "(root)" : parent.slice(0, 7),
+      headRef: hash.slice(0, 7),
+      files,
+      commits: mapCommits(log),
+      stats,
+      mode: "commit",
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to get changes for commit ${sha}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+// git's well-known hash of the empty tree
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+async function openRepo(
+  repoPath: string | undefined,
+  fetch: boolean
+): Promise<SimpleGit> {
+  const git = simpleGit(repoPath);
+  if (fetch) {
+    await git.fetch();
+  }
+  return git;
+}
+
+async function getCommits(
+  git: SimpleGit,
+  from: string,
+  to: string
+): Promise<CommitInfo[]> {
+  const log: any = await git.log({ from, to, maxCount: 10 });
+  return mapCommits(log);
+}
+
+function mapCommits(log: any): CommitInfo[] {
+  return (log?.all || []).map((commit: any) => ({
+    hash: commit.hash,
+    message: commit.message,
+    body: commit.body || undefined,
+    author: commit.author_name || "Unknown",
+    date: commit.date,
+  }));
+}
+
+// Every non-merge commit in from..to, oldest last (as `git log` prints them).
+export async function getCommitLog(
+  from: string,
+  to: string,
+  options: Omit<GitChangesOptions, "mode"> = {}
+): Promise<CommitInfo[]> {
+  const { repoPath, fetch = false } = options;
+
+  try {
+    const git = await openRepo(repoPath, fetch);
+    const log: any = await git.log({ from, to, "--no-merges": null });
+    return mapCommits(log);
+  } catch (error) {
+    throw new Error(
+      `Failed to read commits in ${from}..${to}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+// Files (with patches) and stats for a single diff range argument.
+async function collectFileChanges(
+  git: SimpleGit,
+  diffRangeArg: string
+): Promise<{ files: FileChange[]; stats: GitStats }> {
+  const entries = await getDiffEntries(git, [diffRangeArg]);
+  const isIgnored = await getIgnoreMatcher(git);
+  const files: FileChange[] = [];
+
+  for (const entry of entries) {
+    if (isIgnored(entry.path)) {
+      files.push(toIgnoredFileChange(entry));
+      continue;
+    }
+
+    let patch: string | null = null;
+
+    try {
+      patch = await git.diff([diffRangeArg, "-M", "--", ...entryPaths(entry)]);
+    } catch {
+      patch = null;
+    }
+
+    files.push(toFileChange(entry, patch));
+  }
+
+  return { files, stats: sumStats(entries) };
+}
+
+interface DiffEntry {
+  path: string;
+  oldPath?: string;
+  status: FileStatus;
+  similarity?: number;
+  oldMode?: string;
+  newMode?: string;
+  binary: boolean;
   additions: number;
   deletions: number;
-}): FileStatus {
-  if (file.additions > 0 && file.deletions === 0) return "added";
-  if (file.additions === 0 && file.deletions > 0) return "deleted";
-  if (file.additions > 0 && file.deletions > 0) return "modified";
-  return "unknown";
+}
+
+// Status letters as printed by `git diff --name-status` / `--raw`.
+const STATUS_LETTERS: Record<string, FileStatus> = {
+  A: "added",
+  C: "copied",
+  D: "deleted",
+  M: "modified",
+  R: "renamed",
+  T: "modified", // type change (e.g. file <-> symlink), reported via modes
+};
+
+// Collect per-file status, rename/copy sources, modes and line counts for a
+// diff. `--raw` is `--name-status` plus the old/new modes, and `--numstat`
+// reports binary files as "-\t-".
+async function getDiffEntries(
+  git: SimpleGit,
+  rangeArgs: string[]
+): Promise<DiffEntry[]> {
+  const rawOutput = await git.raw(["diff", ...rangeArgs, "--raw", "-M", "-z"]);
+  const numstatOutput = await git.raw([
+    "diff",
+    ...rangeArgs,
+    "--numstat",
+    "-M",
+    "-z",
+  ]);
+
+  const entries: DiffEntry[] = [];
+  const rawTokens = rawOutput.split("\0");
+  for (let i = 0; i < rawTokens.length; i++) {
+    const token = rawTokens[i];
+    if (!token.startsWith(":")) continue;
+
+    const [oldMode, newMode, , , statusField] = token.slice(1).split(" ");
+    const letter = statusField.charAt(0);
+    const score = statusField.slice(1);
+    const entry: DiffEntry = {
+      path: "",
+      status: STATUS_LETTERS[letter] ?? "unknown",
+      binary: false,
+      additions: 0,
+      deletions: 0,
+    };
+
+    if (letter === "R" || letter === "C") {
+      entry.oldPath = rawTokens[++i];
+      entry.path = rawTokens[++i];
+      if (score) entry.similarity = parseInt(score, 10);
+    } else {
+      entry.path = rawTokens[++i];
+    }
+
+    // added/deleted files report an all-zero mode on the missing side
+    if (oldMode !== newMode && !/^0+$/.test(oldMode) && !/^0+$/.test(newMode)) {
+      entry.oldMode = oldMode;
+      entry.newMode = newMode;
+    }
+
+    entries.push(entry);
+  }
+
+  const byPath = new Map(entries.map((e) => [e.path, e]));
+  const numstatTokens = numstatOutput.split("\0");
+  for (let i = 0; i < numstatTokens.length; i++) {
+    const token = numstatTokens[i];
+    if (!token.trim()) continue;
+
+    const [add, del, path] = token.split("\t");
+    // renames and copies print an empty path followed by old and new paths
+    let filePath = path;
+    if (!filePath) {
+      i += 2;
+      filePath = numstatTokens[i];
+    }
+    const entry = byPath.get(filePath);
+    if (!entry) continue;
+
+    entry.binary = add === "-" && del === "-";
+    entry.additions = add === "-" ? 0 : parseInt(add, 10);
+    entry.deletions = del === "-" ? 0 : parseInt(del, 10);
+  }
+
+  return entries;
+}
+
+function entryPaths(entry: DiffEntry): string[] {
+  return entry.oldPath ? [entry.oldPath, entry.path] : [entry.path];
+}
+
+// Combine the committed (base...HEAD) and staged view of the same path.
+function mergeDiffEntries(
+  branch?: DiffEntry,
+  staged?: DiffEntry
+): DiffEntry | undefined {
+  if (!branch || !staged) return branch ?? staged;
+
+  return {
+    ...branch,
+    // a staged deletion wins; otherwise the branch status describes the file
+    status: staged.status === "deleted" ? "deleted" : branch.status,
+    oldMode: branch.oldMode ?? staged.oldMode,
+    newMode: staged.newMode ?? branch.newMode,
+    binary: branch.binary || staged.binary,
+    additions: branch.additions + staged.additions,
+    deletions: branch.deletions + staged.deletions,
+  };
+}
+
+function toFileChange(entry: DiffEntry, patch: string | null): FileChange {
+  const file: FileChange = {
+    path: entry.path,
+    status: getFileStatus(entry),
+    additions: entry.additions,
+    deletions: entry.deletions,
+    patch,
+  };
+  if (patch) {
+    // scrub secrets before the patch can end up in any prompt
+    const { patch: redactedPatch, redacted } = redactPatch(entry.path, patch);
+    file.patch = redactedPatch;
+    if (redacted.length) file.redacted = redacted;
+  }
+  if (entry.oldPath) file.oldPath = entry.oldPath;
+  if (entry.similarity !== undefined) file.similarity = entry.similarity;
+  if (entry.oldMode && entry.newMode) {
+    file.oldMode = entry.oldMode;
+    file.newMode = entry.newMode;
+  }
+  if (entry.binary) file.binary = true;
+  return file;
+}
+
+// Listed by name and counted in the stats, but the patch is never read, so
+// lockfiles and build output can't crowd real changes out of the prompt.
+function toIgnoredFileChange(entry: DiffEntry): FileChange {
+  return { ...toFileChange(entry, null), ignored: true };
+}
+
+// .prdescignore lives at the repository root, like .gitignore.
+async function getIgnoreMatcher(
+  git: SimpleGit
+): Promise<(path: string) => boolean> {
+  const root = (await git.revparse(["--show-toplevel"])).trim();
+  return loadIgnoreMatcher(root);
+}
+
+function sumStats(entries: DiffEntry[]): GitStats {
+  return {
+    insertions: entries.reduce((sum, e) => sum + e.additions, 0),
+    deletions: entries.reduce((sum, e) => sum + e.deletions, 0),
+    filesChanged: entries.length,
+  };
+}
+
+// Binary content changes are reported as "binary"; adds, deletes, renames and
+// copies keep their git status and carry the `binary` flag instead.
+function getFileStatus(entry: DiffEntry): FileStatus {
+  if (entry.binary && entry.status === "modified") return "binary";
+  return entry.status;
 }
 
 // Using gh cli
@@ -223,17 +482,15 @@ export async function isGhCliInstalled(): Promise<boolean> {
 }
 
 export async function getPRForCurrentBranch(
-  currentBranch: string
+  currentBranch: string,
+  cwd?: string
 ): Promise<{ number: number; url: string } | null> {
   try {
-    const output = await runGhCommand([
-      "pr",
-      "list",
-      "--head",
-      currentBranch,
-      "--json",
-      "number,url",
-    ]);
+    const output = await runGhCommand(
+      ["pr", "list", "--head", currentBranch, "--json", "number,url"],
+      undefined,
+      cwd
+    );
     const prs = JSON.parse(output);
     if (prs.length > 0) {
       return prs[0];
@@ -250,19 +507,81 @@ export async function getPRForCurrentBranch(
   }
 }
 
-export async function createPR(body: string): Promise<string> {
-  const args = ["pr", "create", "--fill", "--body-file", "-"];
-  return runGhCommand(args, body);
+export async function getPRBody(
+  prNumber: number,
+  cwd?: string
+): Promise<string> {
+  return runGhCommand(
+    ["pr", "view", String(prNumber), "--json", "body", "--jq", ".body"],
+    undefined,
+    cwd
+  );
 }
 
-export async function updatePR(prNumber: number, body: string): Promise<void> {
+export async function createPR(
+  body: string,
+  cwd?: string,
+  options: PROptions = {}
+): Promise<string> {
+  // without a title, let gh fill it in from the commits
+  const args = options.title
+    ? ["pr", "create", "--title", options.title, "--body-file", "-"]
+    : ["pr", "create", "--fill", "--body-file", "-"];
+  if (options.draft) args.push("--draft");
+  args.push(...prMetadataArgs(options, ""));
+  return runGhCommand(args, body, cwd);
+}
+
+// Labels, reviewers and assignees are only ever added on update, never
+// removed, so manual changes on GitHub survive a regenerate.
+export async function updatePR(
+  prNumber: number,
+  body: string,
+  cwd?: string,
+  options: PROptions = {}
+): Promise<void> {
   const args = ["pr", "edit", String(prNumber), "--body-file", "-"];
-  await runGhCommand(args, body);
+  if (options.title) args.push("--title", options.title);
+  args.push(...prMetadataArgs(options, "add-"));
+  await runGhCommand(args, body, cwd);
+}
+
+function prMetadataArgs(options: PROptions, prefix: "" | "add-"): string[] {
+  const args: string[] = [];
+  for (const label of options.labels ?? [])
+    args.push(`--${prefix}label`, label);
+  for (const reviewer of options.reviewers ?? []) {
+    args.push(`--${prefix}reviewer`, reviewer);
+  }
+  for (const assignee of options.assignees ?? []) {
+    args.push(`--${prefix}assignee`, assignee);
+  }
+  if (options.milestone) args.push("--milestone", options.milestone);
+  return args;
+}
+
+// Names of the labels defined in the repository, so automatic labels are
+// only applied when they exist (gh fails on unknown labels).
+export async function listRepoLabels(cwd?: string): Promise<string[]> {
+  try {
+    const output = await runGhCommand(
+      ["label", "list", "--json", "name", "--limit", "500"],
+      undefined,
+      cwd
+    );
+    return (JSON.parse(output) as { name: string }[]).map((l) => l.name);
+  } catch (error) {
+    return [];
+  }
 }
 
-function runGhCommand(args: string[], body?: string): Promise<string> {
+function runGhCommand(
+  args: string[],
+  body?: string,
+  cwd?: string
+): Promise<string> {
   return new Promise((resolve, reject) => {
-    const gh = spawn("gh", args);
+    const gh = spawn("gh", args, { cwd });
     let stdout = "";
     let stderr = "";
 
@@ -297,9 +616,9 @@ function runGhCommand(args: string[], body?: string): Promise<string> {
   });
 }
 
-export function runGitCommand(args: string[]): Promise<string> {
+export function runGitCommand(args: string[], cwd?: string): Promise<string> {
   return new Promise((resolve, reject) => {
-    const git = spawn("git", args);
+    const git = spawn("git", args, { cwd });
 
     let stdout = "";
     let stderr = "";
@@ -326,9 +645,12 @@ export function runGitCommand(args: string[]): Promise<string> {
   });
 }
 
-export async function pushCurrentBranch(branchName: string): Promise<void> {
+export async function pushCurrentBranch(
+  branchName: string,
+  cwd?: string
+): Promise<void> {
   try {
-    await runGitCommand(["push", "--set-upstream", "origin", branchName]);
+    await runGitCommand(["push", "--set-upstream", "origin", branchName], cwd);
   } catch (error) {
     throw new Error(
       `Failed to push current branch '${branchName}': ${
@@ -0,0 +1,267 @@
+import type { GitHubClient, PROptions, PullRequestRef } from "./types.js";
+import { GhNeedsPushError, GitHubApiError } from "./types.js";
+import {
+  createPR,
+  getPRBody,
+  getPRForCurrentBranch,
+  isGhCliInstalled,
+  listRepoLabels,
+  runGitCommand,
+  updatePR,
+} from "./git-utils.js";
+import { getApiKey, loadConfig } from "./config.js";
+
+const DEFAULT_API_URL = "https://api.github.com";
+
+export function createGhClient(cwd?: string): GitHubClient {
+  return {
+    name: "gh",
+    getPRForBranch: (branch) => getPRForCurrentBranch(branch, cwd),
+    getPRBody: (prNumber) => getPRBody(prNumber, cwd),
+    // gh picks the base branch and pushes its own way; keep its defaults
+    createPR: (body, { head, base, ...options }) =>
+      createPR(body, cwd, options),
+    updatePR: (prNumber, body, options) =>
+      updatePR(prNumber, body, cwd, options),
+    listLabels: () => listRepoLabels(cwd),
+  };
+}
+
+// owner/repo from git@github.com:o/r.git, https://host/o/r(.git) or
+// ssh://git@host/o/r.git
+export function parseGitHubRemote(
+  url: string
+): { owner: string; repo: string } | null {
+  const match = url
+    .trim()
+    .match(
+      /^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?[^:/]+(?::\d+)?[:/](.+?)(?:\.git)?\/?$/i
+    );
+  const parts = match?.[1].split("/") ?? [];
+  if (parts.length < 2) return null;
+  return { owner: parts[parts.length - 2], repo: parts[parts.length - 1] };
+}
+
+export function getGitHubToken(): string | undefined {
+  return (
+    process.env.GITHUB_TOKEN || process.env.GH_TOKEN || getApiKey("github")
+  );
+}
+
+// GITHUB_API_URL first, so one run can point elsewhere (Actions sets it too)
+export function getGitHubApiUrl(): string {
+  return (
+    process.env.GITHUB_API_URL ||
+    loadConfig().github?.apiUrl ||
+    DEFAULT_API_URL
+  ).replace(/\/+$/, "");
+}
+
+export async function createRestClient(options: {
+  cwd?: string;
+  token: string;
+  apiUrl?: string;
+}): Promise<GitHubClient> {
+  const { cwd, token } = options;
+  const apiUrl = options.apiUrl ?? getGitHubApiUrl();
+
+  const remote = await runGitCommand(["remote", "get-url", "origin"], cwd);
+  const parsed = parseGitHubRemote(remote);
+  if (!parsed) {
+    throw new Error(`Could not read owner/repo from origin remote "${remote}"`);
+  }
+  const repoPath = `/repos/${parsed.owner}/${parsed.repo}`;
+
+  async function request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const res = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${token}`,
+        "X-GitHub-Api-Version": "2022-11-28",
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const text = await res.text();
+    let data: any;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch (error) {
+      // proxies and outages answer with HTML or plain text
+      if (res.ok) {
+        throw new GitHubApiError(
+          `GitHub API ${method} ${path} returned invalid JSON`,
+          res.status
+        );
+      }
+    }
+    if (!res.ok) {
+      // creating a PR for a branch that isn't on the remote
+      if (
+        res.status === 422 &&
+        data?.errors?.some((e: any) => e.field === "head")
+      ) {
+        throw new GhNeedsPushError();
+      }
+      throw new GitHubApiError(
+        `GitHub API ${method} ${path} failed with ${res.status}: ${
+          data?.message ?? (text.trim().slice(0, 200) || res.statusText)
+        }`,
+        res.status
+      );
+    }
+    return data as T;
+  }
+
+  async function resolveAssignees(assignees: string[]): Promise<string[]> {
+    if (!assignees.includes("@me")) return assignees;
+    const { login } = await request<{ login: string }>("GET", "/user");
+    return assignees.map((a) => (a === "@me" ? login : a));
+  }
+
+  // Same semantics as `gh`: labels, reviewers and assignees are added,
+  // the milestone is set by title.
+  async function applyMetadata(prNumber: number, options: PROptions) {
+    if (options.labels?.length) {
+      await request("POST", `${repoPath}/issues/${prNumber}/labels`, {
+        labels: options.labels,
+      });
+    }
+    if (options.reviewers?.length) {
+      // "org/team" requests a team review
+      const teams = options.reviewers.filter((r) => r.includes("/"));
+      await request(
+        "POST",
+        `${repoPath}/pulls/${prNumber}/requested_reviewers`,
+        {
+          reviewers: options.reviewers.filter((r) => !r.includes("/")),
+          team_reviewers: teams.map((t) => t.split("/").pop()),
+        }
+      );
+    }
+    if (options.assignees?.length) {
+      await request("POST", `${repoPath}/issues/${prNumber}/assignees`, {
+        assignees: await resolveAssignees(options.assignees),
+      });
+    }
+    if (options.milestone) {
+      const milestones = await request<{ number: number; title: string }[]>(
+        "GET",
+        `${repoPath}/milestones?state=open&per_page=100`
+      );
+      const milestone = milestones.find((m) => m.title === options.milestone);
+      if (!milestone) {
+        throw new Error(`Milestone "${options.milestone}" not found`);
+      }
+      await request("PATCH", `${repoPath}/issues/${prNumber}`, {
+        milestone: milestone.number,
+      });
+    }
+  }
+
+  return {
+    name: "rest",
+    async getPRForBranch(branch) {
+      const prs = await request<{ number: number; html_url: string }[]>(
+        "GET",
+        `${repoPath}/pulls?state=open&head=${encodeURIComponent(
+          `${parsed.owner}:${branch}`
+        )}`
+      );
+      return prs.length
+        ? ({ number: prs[0].number, url: prs[0].html_url } as PullRequestRef)
+        : null;
+    },
+    async getPRBody(prNumber) {
+      const pr = await request<{ body: string | null }>(
+        "GET",
+        `${repoPath}/pulls/${prNumber}`
+      );
+      return pr.body ?? "";
+    },
+    async createPR(body, { head, base, ...options }) {
+      // like `gh pr create --fill`: fall back to the last commit subject
+      const title =
+        options.title ||
+        (await runGitCommand(["log", "-1", "--format=%s"], cwd)) ||
+        head;
+      const pr = await request<{ number: number; html_url: string }>(
+        "POST",
+        `${repoPath}/pulls`,
+        {
+          title,
+          head,
+          base: base.replace(/^origin\//, ""),
+          body,
+          draft: Boolean(options.draft),
+        }
+      );
+      await applyMetadata(pr.number, options);
+      return pr.html_url;
+    },
+    async updatePR(prNumber, body, options) {
+      await request("PATCH", `${repoPath}/pulls/${prNumber}`, {
+        body,
+        ...(options.title ? { title: options.title } : {}),
+      });
+      await applyMetadata(prNumber, options);
+    },
+    async listLabels() {
+      try {
+        const labels = await request<{ name: string }[]>(
+          "GET",
+          `${repoPath}/labels?per_page=100`
+        );
+        return labels.map((l) => l.name);
+      } catch (error) {
+        return [];
+      }
+    },
+  };
+}
+
+// Pick a backend: `gh` when it's installed, otherwise the REST API with a
+// token from GITHUB_TOKEN / GH_TOKEN / `pr-desc config set github <token>`.
+// `preferred` (CLI) or `github.client` (config) can force either one.
+// `unlock` opens the credential store when the token isn't found elsewhere.
+export async function getGitHubClient(
+  options: {
+    cwd?: string;
+    preferred?: string;
+    unlock?: () => Promise<unknown>;
+  } = {}
+): Promise<GitHubClient> {
+  const preferred = options.preferred || loadConfig().github?.client || "auto";
+  if (!["auto", "gh", "rest"].includes(preferred)) {
+    throw new Error(
+      `Unknown GitHub client "${preferred}". Use auto, gh or rest.`
+    );
+  }
+
+  if (preferred !== "rest" && (await isGhCliInstalled())) {
+    return createGhClient(options.cwd);
+  }
+  if (preferred === "gh") {
+    throw new Error(
+      "GitHub CLI ('gh') is not installed. Please install it to create PRs."
+    );
+  }
+
+  let token = getGitHubToken();
+  if (!token && options.unlock) {
+    await options.unlock();
+    token = getGitHubToken();
+  }
+  if (!token) {
+    throw new Error(
+      "No GitHub client available: install the GitHub CLI ('gh') or set GITHUB_TOKEN (or run 'pr-desc config set github <token>')."
+    );
+  }
+  return createRestClient({ cwd: options.cwd, token });
+}
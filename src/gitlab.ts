@@ -0,0 +1,234 @@
+import type { PROptions, PullRequestClient } from "./types.js";
+import { GhError, GhNeedsPushError } from "./types.js";
+import { runGitCommand } from "./git-utils.js";
+import { getApiKey, loadConfig } from "./config.js";
+
+// host and full project path (nested groups included) from
+// git@host:group/sub/project.git, https://host/group/project(.git) or
+// ssh://git@host:2222/group/project.git
+export function parseGitLabRemote(
+  url: string
+): { host: string; projectPath: string } | null {
+  const match = url
+    .trim()
+    .match(
+      /^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^:/]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/i
+    );
+  if (!match || !match[2].includes("/")) return null;
+  return { host: match[1], projectPath: match[2] };
+}
+
+export function getGitLabToken(): string | undefined {
+  return process.env.GITLAB_TOKEN || getApiKey("gitlab");
+}
+
+export async function createGitLabClient(options: {
+  cwd?: string;
+  token: string;
+  baseUrl?: string;
+}): Promise<PullRequestClient> {
+  const { cwd, token } = options;
+
+  const remote = await runGitCommand(["remote", "get-url", "origin"], cwd);
+  const parsed = parseGitLabRemote(remote);
+  if (!parsed) {
+    throw new Error(
+      `Could not read the project from origin remote "${remote}"`
+    );
+  }
+
+  const baseUrl = (
+    options.baseUrl ||
+    loadConfig().gitlab?.baseUrl ||
+    process.env.GITLAB_URL ||
+    process.env.CI_SERVER_URL ||
+    `https://${parsed.host}`
+  ).replace(/\/+$/, "");
+  const projectPath = `/projects/${encodeURIComponent(parsed.projectPath)}`;
+
+  async function request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const res = await fetch(`${baseUrl}/api/v4${path}`, {
+      method,
+      headers: {
+        "PRIVATE-TOKEN": token,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const text = await res.text();
+    const data = text ? JSON.parse(text) : undefined;
+    if (!res.ok) {
+      const message =
+        typeof data?.message === "string"
+          ? data.message
+          : JSON.stringify(data?.message ?? data?.error ?? res.statusText);
+      throw new GhError(
+        `GitLab API ${method} ${path} failed with ${res.status}: ${message}`
+      );
+    }
+    return data as T;
+  }
+
+  async function getUserIds(usernames: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const username of usernames) {
+      const users =
+        username === "@me"
+          ? [await request<{ id: number }>("GET", "/user")]
+          : await request<{ id: number }[]>(
+              "GET",
+              `/users?username=${encodeURIComponent(username)}`
+            );
+      if (!users.length) throw new Error(`GitLab user "${username}" not found`);
+      ids.push(users[0].id);
+    }
+    return ids;
+  }
+
+  async function getMilestoneId(title: string): Promise<number> {
+    const milestones = await request<{ id: number }[]>(
+      "GET",
+      `${projectPath}/milestones?state=active&title=${encodeURIComponent(
+        title
+      )}`
+    );
+    if (!milestones.length) throw new Error(`Milestone "${title}" not found`);
+    return milestones[0].id;
+  }
+
+  // Reviewers and assignees are merged with the ones already on the MR so an
+  // update only ever adds, like on GitHub.
+  async function buildMetadata(
+    options: PROptions,
+    existing: {
+      reviewers?: { id: number }[];
+      assignees?: { id: number }[];
+    } = {}
+  ) {
+    const union = (current: { id: number }[] = [], added: number[]) =>
+      Array.from(new Set([...current.map((u) => u.id), ...added]));
+
+    return {
+      ...(options.reviewers?.length
+        ? {
+            reviewer_ids: union(
+              existing.reviewers,
+              await getUserIds(options.reviewers)
+            ),
+          }
+        : {}),
+      ...(options.assignees?.length
+        ? {
+            assignee_ids: union(
+              existing.assignees,
+              await getUserIds(options.assignees)
+            ),
+          }
+        : {}),
+      ...(options.milestone
+        ? { milestone_id: await getMilestoneId(options.milestone) }
+        : {}),
+    };
+  }
+
+  return {
+    name: "gitlab",
+    async getPRForBranch(branch) {
+      const mrs = await request<{ iid: number; web_url: string }[]>(
+        "GET",
+        `${projectPath}/merge_requests?state=opened&source_branch=${encodeURIComponent(
+          branch
+        )}`
+      );
+      return mrs.length ? { number: mrs[0].iid, url: mrs[0].web_url } : null;
+    },
+    async getPRBody(mrIid) {
+      const mr = await request<{ description: string | null }>(
+        "GET",
+        `${projectPath}/merge_requests/${mrIid}`
+      );
+      return mr.description ?? "";
+    },
+    async createPR(body, { head, base, ...options }) {
+      // GitLab answers a missing source branch with a generic error
+      try {
+        await runGitCommand(
+          ["ls-remote", "--exit-code", "--heads", "origin", head],
+          cwd
+        );
+      } catch (error) {
+        // --exit-code: 2 means the branch isn't on the remote
+        if (error instanceof Error && error.message.includes("code 2:")) {
+          throw new GhNeedsPushError();
+        }
+        throw error;
+      }
+
+      const title =
+        options.title ||
+        (await runGitCommand(["log", "-1", "--format=%s"], cwd)) ||
+        head;
+      const mr = await request<{ web_url: string }>(
+        "POST",
+        `${projectPath}/merge_requests`,
+        {
+          source_branch: head,
+          target_branch: base.replace(/^origin\//, ""),
+          title: options.draft ? `Draft: ${title}` : title,
+          description: body,
+          labels: options.labels?.join(","),
+          ...(await buildMetadata(options)),
+        }
+      );
+      return mr.web_url;
+    },
+    async updatePR(mrIid, body, options) {
+      const existing = await request<{
+        reviewers?: { id: number }[];
+        assignees?: { id: number }[];
+      }>("GET", `${projectPath}/merge_requests/${mrIid}`);
+
+      await request("PUT", `${projectPath}/merge_requests/${mrIid}`, {
+        description: body,
+        ...(options.title ? { title: options.title } : {}),
+        ...(options.labels?.length
+          ? { add_labels: options.labels.join(",") }
+          : {}),
+        ...(await buildMetadata(options, existing)),
+      });
+    },
+    async listLabels() {
+      try {
+        const labels = await request<{ name: string }[]>(
+          "GET",
+          `${projectPath}/labels?per_page=100`
+        );
+        return labels.map((l) => l.name);
+      } catch (error) {
+        return [];
+      }
+    },
+  };
+}
+
+// `unlock` opens the credential store when the token isn't found elsewhere
+export async function getGitLabClient(
+  options: { cwd?: string; unlock?: () => Promise<unknown> } = {}
+): Promise<PullRequestClient> {
+  let token = getGitLabToken();
+  if (!token && options.unlock) {
+    await options.unlock();
+    token = getGitLabToken();
+  }
+  if (!token) {
+    throw new Error(
+      "No GitLab token: set GITLAB_TOKEN or run 'pr-desc config set gitlab <token>'."
+    );
+  }
+  return createGitLabClient({ cwd: options.cwd, token });
+}
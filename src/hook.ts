@@ -0,0 +1,174 @@
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { dirname, resolve } from "path";
+import type { CommitMessageOptions } from "./types.js";
+import { getGitChanges, runGitCommand } from "./git-utils.js";
+import { generateConventionalCommitMessage } from "./commit-generator.js";
+import { describeRedactions } from "./redact.js";
+import { findIssueRefs, issueFooters, loadIssuesConfig } from "./issues.js";
+
+const HOOK_NAME = "prepare-commit-msg";
+const HOOK_MARKER = "# pr-desc prepare-commit-msg hook";
+// Don't hold up `git commit` for long when the model is slow or unreachable
+const HOOK_TIMEOUT_MS = 30_000;
+
+// Commit sources (2nd hook argument) where the user already has a message:
+// -m/-F, merges, squashes and -c/-C/--amend.
+const SKIPPED_SOURCES = ["message", "merge", "squash", "commit"];
+
+async function getHookPath(repoPath?: string): Promise<string> {
+  // respects core.hooksPath and worktrees
+  const hooksDir = await runGitCommand(
+    ["rev-parse", "--git-path", "hooks"],
+    repoPath
+  );
+  const hooksPath = resolve(repoPath || process.cwd(), hooksDir);
+  if (existsSync(hooksPath) && !statSync(hooksPath).isDirectory()) {
+    throw new Error(
+      `Git hooks path ${hooksPath} is not a directory (check core.hooksPath).`
+    );
+  }
+  return resolve(hooksPath, HOOK_NAME);
+}
+
+function buildHookScript(extraArgs: string[]): string {
+  const args = extraArgs.length ? ` ${extraArgs.join(" ")}` : "";
+  return `#!/bin/sh
+${HOOK_MARKER} (remove with: pr-desc hook uninstall)
+command -v pr-desc >/dev/null 2>&1 || exit 0
+pr-desc commit --hook "$1" "$2" "$3"${args} || true
+`;
+}
+
+export async function installHook(
+  options: { repoPath?: string; force?: boolean; extraArgs?: string[] } = {}
+): Promise<string> {
+  const hookPath = await getHookPath(options.repoPath);
+
+  if (existsSync(hookPath)) {
+    const existing = readFileSync(hookPath, "utf-8");
+    if (!existing.includes(HOOK_MARKER) && !options.force) {
+      throw new Error(
+        `A ${HOOK_NAME} hook already exists at ${hookPath}. Use --force to overwrite it.`
+      );
+    }
+  }
+
+  mkdirSync(dirname(hookPath), { recursive: true });
+  writeFileSync(hookPath, buildHookScript(options.extraArgs ?? []));
+  chmodSync(hookPath, 0o755);
+  return hookPath;
+}
+
+export async function uninstallHook(
+  options: { repoPath?: string } = {}
+): Promise<string | null> {
+  const hookPath = await getHookPath(options.repoPath);
+  if (!existsSync(hookPath)) return null;
+
+  if (!readFileSync(hookPath, "utf-8").includes(HOOK_MARKER)) {
+    throw new Error(
+      `The ${HOOK_NAME} hook at ${hookPath} was not installed by pr-desc; leaving it alone.`
+    );
+  }
+
+  unlinkSync(hookPath);
+  return hookPath;
+}
+
+// git's comment character; "auto" picks one per message, which git's own
+// template starts with "#"
+async function getCommentChar(repoPath?: string): Promise<string> {
+  try {
+    const value = await runGitCommand(
+      ["config", "--get", "core.commentChar"],
+      repoPath
+    );
+    return value && value !== "auto" ? value : "#";
+  } catch {
+    return "#"; // unset
+  }
+}
+
+// True when the message file has anything besides comments and blank lines.
+// Everything below the scissors line (the diff `git commit -v` adds) is
+// dropped by git, so it doesn't count.
+function hasUserMessage(content: string, commentChar = "#"): boolean {
+  const scissors = `${commentChar} ------------------------ >8 ------------------------`;
+  const lines = content.split(/\r?\n/);
+  const end = lines.indexOf(scissors);
+  return (end === -1 ? lines : lines.slice(0, end)).some(
+    (line) => line.trim() && !line.startsWith(commentChar)
+  );
+}
+
+export function shouldSkipHook(
+  source: string | undefined,
+  content: string,
+  commentChar?: string
+) {
+  return (
+    (source !== undefined && SKIPPED_SOURCES.includes(source)) ||
+    hasUserMessage(content, commentChar)
+  );
+}
+
+// Non-interactive entry point for the prepare-commit-msg hook: write a
+// suggested message above git's comment block. Never throws — any failure
+// leaves the message file untouched so `git commit` carries on as usual.
+export async function fillCommitMessageFile(
+  msgFile: string,
+  source: string | undefined,
+  options: CommitMessageOptions & { base: string; repoPath?: string }
+): Promise<boolean> {
+  try {
+    const content = existsSync(msgFile) ? readFileSync(msgFile, "utf-8") : "";
+    const commentChar = await getCommentChar(options.repoPath);
+    if (shouldSkipHook(source, content, commentChar)) return false;
+
+    const changes = await getGitChanges(options.base, {
+      repoPath: options.repoPath,
+      fetch: false,
+      mode: "staged",
+    });
+    if (!changes.files.length) return false;
+    const redactions = describeRedactions(changes.files);
+    if (redactions) console.error(`pr-desc: ${redactions}`);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error("timed out waiting for the model")),
+        HOOK_TIMEOUT_MS
+      );
+    });
+
+    const footers = [
+      ...(options.footers ?? []),
+      ...issueFooters(
+        findIssueRefs(changes.headRef, [], loadIssuesConfig(options.repoPath))
+      ),
+    ];
+    const message = await Promise.race([
+      generateConventionalCommitMessage(changes, { ...options, footers }),
+      timeout,
+    ]).finally(() => clearTimeout(timer));
+
+    writeFileSync(msgFile, `${message}\n${content ? `\n${content}` : ""}`);
+    return true;
+  } catch (error) {
+    console.error(
+      `pr-desc: could not suggest a commit message (${
+        error instanceof Error ? error.message : "Unknown error"
+      })`
+    );
+    return false;
+  }
+}
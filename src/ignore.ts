@@ -0,0 +1,125 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+
+export const IGNORE_FILE = ".prdescignore";
+
+// Files whose diffs are noise to the model. They still count in the stats
+// and are listed by name; `!pattern` in .prdescignore brings one back.
+export const DEFAULT_IGNORE_PATTERNS = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "Cargo.lock",
+  "go.sum",
+  "composer.lock",
+  "Gemfile.lock",
+  "poetry.lock",
+  "dist/",
+  "*.min.js",
+  "*.min.css",
+  "*.map",
+  "*.snap",
+  "__snapshots__/",
+];
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+// Translate one gitignore glob into a regex over repo-relative paths.
+function globToRegex(glob: string, anchored: boolean): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?"; // "**/" matches zero or more directories
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${glob
+          .slice(i + 1, end)
+          .replace(/^!/, "^")
+          .replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}$`);
+}
+
+// gitignore syntax: comments, blank lines, `!` negation, a leading or inner
+// `/` anchors the pattern to the repo root, a trailing `/` matches only
+// directories, and `*`, `?`, `**` and `[...]` work as in git.
+function parseIgnorePatterns(lines: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of lines) {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+    if (!line) continue;
+
+    rules.push({ regex: globToRegex(line, anchored), negate, directoryOnly });
+  }
+  return rules;
+}
+
+// Returns a predicate for repo-relative file paths. The last matching rule
+// wins, and a file inside a matching directory is matched too.
+export function createIgnoreMatcher(
+  patterns: string[]
+): (path: string) => boolean {
+  const rules = parseIgnorePatterns(patterns);
+
+  return (path) => {
+    const parts = path.split("/");
+    const directories = parts
+      .slice(0, -1)
+      .map((_, i) => parts.slice(0, i + 1).join("/"));
+
+    let ignored = false;
+    for (const rule of rules) {
+      const matches =
+        directories.some((dir) => rule.regex.test(dir)) ||
+        (!rule.directoryOnly && rule.regex.test(path));
+      if (matches) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+}
+
+// Built-in defaults followed by the repo's .prdescignore, if any.
+export function loadIgnoreMatcher(repoRoot: string): (path: string) => boolean {
+  const file = join(repoRoot, IGNORE_FILE);
+  const custom = existsSync(file)
+    ? readFileSync(file, "utf-8").split(/\r?\n/)
+    : [];
+  return createIgnoreMatcher([...DEFAULT_IGNORE_PATTERNS, ...custom]);
+}
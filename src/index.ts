@@ -2,36 +2,99 @@
 
 import { Command } from "commander";
 import chalk from "chalk";
-import ora from "ora";
+import ora, { type Ora } from "ora";
 import { config } from "dotenv";
 import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
-import { input, select, password, confirm } from "@inquirer/prompts";
-import { join, dirname } from "path";
+import { input, select, password, confirm, editor } from "@inquirer/prompts";
+import { join, dirname, resolve } from "path";
 
-import { generatePRDescription } from "./pr-generator.js";
+import { formatPRDescription, generatePRDescription } from "./pr-generator.js";
 import { generateConventionalCommitMessage } from "./commit-generator.js";
 import {
   getGitChanges,
-  createPR,
-  getPRForCurrentBranch,
-  isGhCliInstalled,
-  updatePR,
+  getRangeChanges,
+  getCommitChanges,
   pushCurrentBranch,
   runGitCommand,
+  getCommitLog,
 } from "./git-utils.js";
-import { getSupportedModels, SUPPORTED_MODELS } from "./models.js";
-import { loadConfig, setApiKey, getApiKey, saveConfig } from "./config.js";
-import { maskApiKey } from "./utils.js";
+import { getGitHubClient } from "./github.js";
+import { getGitLabClient } from "./gitlab.js";
+import {
+  getDefaultModel,
+  getProviderRegistry,
+  getSupportedModels,
+  listProviders,
+} from "./models.js";
+import {
+  loadConfig,
+  setApiKey,
+  getApiKey,
+  saveConfig,
+  resolveSettings,
+  migrateSecrets,
+} from "./config.js";
+import {
+  getApiKeyEnvVar,
+  getEncryptedStore,
+  hasEncryptedStore,
+  unlockCredentialStore,
+  PASSPHRASE_ENV,
+} from "./credentials.js";
+import { maskApiKey, validateConventionalCommit } from "./utils.js";
 import {
   PackageJson,
   GhNeedsPushError,
+  CredentialStoreError,
+  CancelledError,
   CLIGenerateOptions,
+  GenerateOptions,
   CLIModelsOptions,
   CLIConfigOptions,
+  CLITemplatesOptions,
   CLICommitOptions,
+  GitChanges,
+  CLIChangelogOptions,
+  CommitMessageOptions,
+  CLIHookOptions,
+  PROptions,
+  PullRequestClient,
 } from "./types.js";
-import { generateQuickSummary } from "./quick-summary.js";
+import { buildQuickSummary, formatQuickSummary } from "./quick-summary.js";
+import {
+  OUTPUT_SCHEMAS,
+  type OutputSchemaKind,
+  buildCommitOutput,
+  buildGenerateOutput,
+} from "./json-output.js";
+import { summarizeChanges } from "./map-reduce.js";
+import { clearCache, getCacheStats } from "./cache.js";
+import { describeRedactions } from "./redact.js";
+import { findIssueRefs, issueFooters, loadIssuesConfig } from "./issues.js";
+import { hasTemplateTags, parseTemplate } from "./template-engine.js";
+import {
+  createTemplate,
+  describeTemplateSource,
+  findTemplate,
+  getRepoDefaultTemplate,
+  listGlobalTemplates,
+  listTemplates,
+  readTemplate,
+} from "./templates.js";
+import { fillCommitMessageFile, installHook, uninstallHook } from "./hook.js";
+import { mergeGenerated, readGenerated, wrapGenerated } from "./pr-body.js";
+import {
+  createTokenPrinter,
+  withInterrupt,
+  type TokenPrinter,
+} from "./streaming.js";
+import {
+  buildChangelog,
+  prependToChangelogFile,
+  renderChangelogMarkdown,
+  rewriteChangelogWithAI,
+} from "./changelog.js";
 
 config();
 
@@ -53,6 +116,99 @@ try {
 }
 const program = new Command();
 
+function parsePositiveInt(value?: string): number | undefined {
+  const parsed = Number.parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+// Keep the spinner going after a warning, if it was still running
+function warnAndContinue(spinner: Ora, warning: string) {
+  if (!spinner.isSpinning) {
+    spinner.warn(warning);
+    return;
+  }
+  const text = spinner.text;
+  spinner.warn(warning);
+  spinner.start(text);
+}
+
+// List the files whose secrets were scrubbed
+function warnRedactions(spinner: Ora, changes: GitChanges) {
+  const warning = describeRedactions(changes.files);
+  if (warning) warnAndContinue(spinner, warning);
+}
+
+// Commander collector for repeatable, comma-separated list options
+function collectList(value: string, previous: string[]): string[] {
+  return [
+    ...previous,
+    ...value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean),
+  ];
+}
+
+// Ask for the credential store passphrase (unless PR_DESC_PASSPHRASE already
+// opened it). With `create`, offer to set up a new store. Returns whether the
+// store is usable; callers fall back to env vars / plain config otherwise.
+// Prompts go to stderr so they never end up in piped output.
+async function unlockCredentials(create = false): Promise<boolean> {
+  if (getEncryptedStore()) return true;
+  const exists = hasEncryptedStore();
+  if ((!exists && !create) || !process.stdin.isTTY) return false;
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const passphrase = await password(
+      {
+        message: exists
+          ? "Passphrase for the pr-desc credential store:"
+          : "Choose a passphrase to encrypt your API keys (leave blank to skip):",
+        mask: "*",
+      },
+      { output: process.stderr }
+    );
+    if (!passphrase) return false;
+
+    if (!exists) {
+      const repeated = await password(
+        {
+          message: "Repeat the passphrase:",
+          mask: "*",
+        },
+        { output: process.stderr }
+      );
+      if (repeated !== passphrase) {
+        console.error(chalk.red("Passphrases do not match."));
+        continue;
+      }
+    }
+
+    try {
+      unlockCredentialStore(passphrase);
+      return true;
+    } catch (error) {
+      if (!(error instanceof CredentialStoreError)) throw error;
+      console.error(chalk.red(error.message));
+    }
+  }
+  return false;
+}
+
+// Unlock the store only when `provider` needs it: not when its key is in the
+// environment already, and never by prompting in JSON mode (CI sets
+// PR_DESC_PASSPHRASE instead).
+async function unlockCredentialsFor(
+  provider: string,
+  options: { json?: boolean; spinner?: Ora } = {}
+): Promise<void> {
+  if (process.env[getApiKeyEnvVar(provider)] || getEncryptedStore()) return;
+  if (options.json) return;
+  options.spinner?.stop();
+  await unlockCredentials();
+  options.spinner?.start();
+}
+
 if (process.argv.length <= 2) {
   const PR_DESC_ASCII = `
       ██████╗ ██████╗      ██████╗  ███████╗███████╗ ██████╗
@@ -81,6 +237,19 @@ if (process.argv.length <= 2) {
   console.log(
     chalk.dim("  commit          Generate an AI conventional commit message")
   );
+  console.log(
+    chalk.dim("  changelog       Generate release notes from commits")
+  );
+  console.log(
+    chalk.dim("  hook            Install the git prepare-commit-msg hook")
+  );
+  console.log(
+    chalk.dim("  schema          Print the JSON schema of --format json output")
+  );
+  console.log(
+    chalk.dim("  cache           Show or clear the AI response cache")
+  );
+  console.log(chalk.dim("  templates       List, show or create PR templates"));
   console.log(chalk.dim("  init            Interactive setup wizard"));
   console.log(
     chalk.dim("  models          List available models for each provider")
@@ -108,14 +277,43 @@ program
   .alias("gen")
   .description("Generate PR description from git changes")
   .option("-b, --base <branch>", "Base branch to compare against")
-  .option("-p, --provider <provider>", "AI provider (groq, local)")
+  .option(
+    "--repo <path>",
+    "Path to the git repository (defaults to the current directory)"
+  )
+  .option("--no-fetch", "Skip 'git fetch' before reading changes")
+  .option(
+    "--range <range>",
+    "Describe a revision range instead of the current branch (e.g. v1.0..v1.1)"
+  )
+  .option("--commit <sha>", "Describe a single commit")
+  .option(
+    "-p, --provider <provider>",
+    "AI provider (groq, local or a custom provider)"
+  )
   .option("-m, --model <model>", "AI model to use")
   .option(
-    "--template <template>",
-    "PR template style (standard, detailed, minimal)"
+    "--template <name>",
+    "PR template: standard, detailed, minimal or a name from `pr-desc templates list`"
   )
   .option("--template-file <path>", "Path to a custom Markdown template file") // user-custom template
-  .option("--max-files <number>", "Maximum number of files to analyze", "20")
+  .option(
+    "--max-files <number>",
+    "Maximum number of files to include with full diffs, others are summarized (default: 20)"
+  )
+  .option(
+    "--token-budget <number>",
+    "Token budget for the diff in the prompt (default: based on the model)"
+  )
+  .option(
+    "--multi-pass",
+    "Summarize each file group separately before writing the description (for very large branches)",
+    false
+  )
+  .option(
+    "--concurrency <number>",
+    "Maximum parallel AI calls in multi-pass mode (default: 1 for local, 3 otherwise)"
+  )
   .option(
     "--dry-run",
     "Display decorative output for interactive review (dry run)",
@@ -126,55 +324,278 @@ program
     "Create or update a PR on GitHub with the generated description using the GitHub CLI",
     false
   )
+  .option(
+    "--mr",
+    "Create or update a GitLab merge request with the generated description",
+    false
+  )
+  .option("--title <title>", "PR title (default: the generated title)")
+  .option("--draft", "Create the PR as a draft (with --gh-pr or --mr)", false)
+  .option(
+    "--label <labels>",
+    "Add labels to the PR, repeatable or comma-separated (with --gh-pr or --mr)",
+    collectList,
+    [] as string[]
+  )
+  .option(
+    "--reviewer <handles>",
+    "Request reviews from users or teams, repeatable or comma-separated (with --gh-pr or --mr)",
+    collectList,
+    [] as string[]
+  )
+  .option(
+    "--assignee <logins>",
+    'Assign people by login, repeatable or comma-separated; "@me" for yourself (with --gh-pr or --mr)',
+    collectList,
+    [] as string[]
+  )
+  .option(
+    "--milestone <name>",
+    "Add the PR to a milestone (with --gh-pr or --mr)"
+  )
+  .option(
+    "--github-client <client>",
+    "How to talk to GitHub with --gh-pr: auto, gh or rest (default: auto)"
+  )
+  .option(
+    "--replace-all",
+    "Overwrite the whole PR body on update, including text outside the pr-desc markers",
+    false
+  )
+  .option(
+    "--incremental",
+    "Update the PR by describing only the commits pushed since pr-desc last described it",
+    false
+  )
+  .option(
+    "--no-auto-label",
+    "Don't add the label matching the detected PR type (e.g. Feature, Bugfix)"
+  )
+  .option("--no-cache", "Don't reuse or store cached AI responses")
+  .option(
+    "--stream",
+    "Print the description as it's generated (default when stdout is a terminal)"
+  )
+  .option(
+    "--no-stream",
+    "Wait for the whole description instead of printing it as it's generated"
+  )
+  .option(
+    "--format <format>",
+    "Output format: markdown or json (see `pr-desc schema generate`)",
+    "markdown"
+  )
   .action(async (options: CLIGenerateOptions) => {
+    const startedAt = new Date();
     const spinner = ora("Analyzing git changes...").start();
 
     try {
-      // load default config
-      const config = loadConfig();
-      if (!config.defaultProvider) config.defaultProvider = "groq";
-      if (!config.defaultTemplate) config.defaultTemplate = "standard";
-      if (!config.defaultBaseBranch) config.defaultBaseBranch = "main";
+      const repoPath = options.repo ? resolve(options.repo) : undefined;
+
+      // CLI flags > env vars > repo config > global config > defaults
+      const { settings, sources } = resolveSettings(
+        {
+          provider: options.provider,
+          model: options.model,
+          template: options.template,
+          baseBranch: options.base,
+          maxFiles: parsePositiveInt(options.maxFiles),
+        },
+        { repoPath, repoTemplate: getRepoDefaultTemplate(repoPath) }
+      );
 
       // set options
-      options.provider = options.provider || config.defaultProvider;
-      options.template = options.template || config.defaultTemplate;
-      options.base = options.base || config.defaultBaseBranch;
-      options.model =
-        options.model ||
-        SUPPORTED_MODELS[options.provider as keyof typeof SUPPORTED_MODELS]
-          .default;
-
-      let mode: "branch" | "staged" = "branch";
-      try {
-        const stagedNameOnly = await runGitCommand([
-          "diff",
-          "--cached",
-          "--name-only",
-        ]);
-        if (stagedNameOnly && stagedNameOnly.trim().length > 0) {
-          mode = "staged";
-          spinner.text = "Analyzing staged changes...";
+      options.provider = settings.provider;
+      options.template = settings.template;
+      options.base = settings.baseBranch;
+      options.maxFiles = String(settings.maxFiles);
+      options.model = settings.model || getDefaultModel(options.provider);
+
+      if (options.format && !["markdown", "json"].includes(options.format)) {
+        spinner.fail(
+          `Unknown format "${options.format}". Use markdown or json.`
+        );
+        process.exit(1);
+      }
+      await unlockCredentialsFor(options.provider, {
+        json: options.format === "json",
+        spinner,
+      });
+      let templateEntry = options.templateFile
+        ? undefined
+        : findTemplate(options.template, repoPath);
+      if (
+        !options.templateFile &&
+        !templateEntry &&
+        sources.template === "global"
+      ) {
+        // a global default may name a template only another repo has
+        const text = spinner.text;
+        spinner.warn(
+          `Default template "${options.template}" isn't available here, using "standard".`
+        );
+        spinner.start(text);
+        options.template = "standard";
+        templateEntry = findTemplate(options.template, repoPath);
+      }
+      if (!options.templateFile && !templateEntry) {
+        spinner.fail(
+          `Unknown template "${options.template}". Run 'pr-desc templates list' to see the available ones.`
+        );
+        process.exit(1);
+      }
+      if (options.ghPr && options.mr) {
+        spinner.fail("Use either --gh-pr or --mr, not both.");
+        process.exit(1);
+      }
+      // --mr shares the whole --gh-pr flow, only the client differs
+      const publish = options.ghPr || options.mr;
+
+      if (
+        !publish &&
+        (options.draft ||
+          options.label?.length ||
+          options.reviewer?.length ||
+          options.assignee?.length ||
+          options.milestone)
+      ) {
+        spinner.fail(
+          "--draft, --label, --reviewer, --assignee and --milestone need --gh-pr or --mr."
+        );
+        process.exit(1);
+      }
+      if (options.incremental && !publish) {
+        spinner.fail("--incremental needs --gh-pr or --mr.");
+        process.exit(1);
+      }
+      if (options.format === "json" && publish) {
+        spinner.fail("--format json can't be combined with --gh-pr or --mr.");
+        process.exit(1);
+      }
+      if (options.range && options.commit) {
+        spinner.fail("Use either --range or --commit, not both.");
+        process.exit(1);
+      }
+      if ((options.range || options.commit) && publish) {
+        spinner.fail(
+          "--gh-pr and --mr describe the current branch; they can't be combined with --range or --commit."
+        );
+        process.exit(1);
+      }
+
+      let prClient: PullRequestClient | undefined;
+      if (publish) {
+        try {
+          // the token may sit in the credential store, which --provider's
+          // key in the environment left locked
+          const unlock = () =>
+            unlockCredentialsFor(options.mr ? "gitlab" : "github", { spinner });
+          prClient = options.mr
+            ? await getGitLabClient({ cwd: repoPath, unlock })
+            : await getGitHubClient({
+                cwd: repoPath,
+                preferred: options.githubClient,
+                unlock,
+              });
+        } catch (error) {
+          spinner.fail(
+            error instanceof Error ? error.message : "Unknown error"
+          );
+          return;
         }
-      } catch (e) {}
+      }
 
-      const changes = await getGitChanges(
-        options.base,
-        Number.parseInt(options.maxFiles || "20"),
-        mode
-      );
+      let changes: GitChanges;
+      if (options.range) {
+        spinner.text = `Analyzing changes in ${options.range}...`;
+        changes = await getRangeChanges(options.range, {
+          repoPath,
+          fetch: options.fetch,
+        });
+      } else if (options.commit) {
+        spinner.text = `Analyzing commit ${options.commit}...`;
+        changes = await getCommitChanges(options.commit, {
+          repoPath,
+          fetch: options.fetch,
+        });
+      } else {
+        let mode: "branch" | "staged" = "branch";
+        try {
+          const stagedNameOnly = await runGitCommand(
+            ["diff", "--cached", "--name-only"],
+            repoPath
+          );
+          if (stagedNameOnly && stagedNameOnly.trim().length > 0) {
+            mode = "staged";
+            spinner.text = "Analyzing staged changes...";
+          }
+        } catch (e) {}
+
+        changes = await getGitChanges(options.base, {
+          repoPath,
+          fetch: options.fetch,
+          mode,
+        });
+      }
+
+      // --incremental: only the commits after the HEAD recorded in the PR
+      // body, described on top of the description that's already there
+      let previousBody: string | undefined;
+      if (options.incremental && prClient) {
+        spinner.text = "Looking up the previous description...";
+        const existingPr = await prClient.getPRForBranch(changes.headRef);
+        const previous = existingPr
+          ? readGenerated(await prClient.getPRBody(existingPr.number))
+          : {};
+
+        let isAncestor = false;
+        if (previous.body && previous.headSha) {
+          try {
+            await runGitCommand(
+              ["merge-base", "--is-ancestor", previous.headSha, "HEAD"],
+              repoPath
+            );
+            isAncestor = true;
+          } catch (error) {}
+        }
+
+        if (!previous.body || !previous.headSha) {
+          spinner.warn(
+            "No previous pr-desc description found; describing the whole branch."
+          );
+          spinner.start("Analyzing git changes...");
+        } else if (!isAncestor) {
+          spinner.warn(
+            `Commit ${previous.headSha.slice(0, 7)} from the last description is no longer in this branch (rebased?); describing the whole branch.`
+          );
+          spinner.start("Analyzing git changes...");
+        } else {
+          const headSha = await runGitCommand(["rev-parse", "HEAD"], repoPath);
+          if (headSha === previous.headSha) {
+            spinner.info("No new commits since the last description.");
+            return;
+          }
+          spinner.text = `Analyzing commits since ${previous.headSha.slice(0, 7)}...`;
+          changes = await getRangeChanges(
+            `${previous.headSha}..${changes.headRef}`,
+            { repoPath, fetch: false }
+          );
+          previousBody = previous.body;
+        }
+      }
 
       if (!changes.files.length) {
         spinner.fail("No changes found");
         return;
       }
+      warnRedactions(spinner, changes);
 
       let customTemplateContent: string | undefined;
+      let templatePath: string | undefined;
       if (options.templateFile) {
         try {
           customTemplateContent = readFileSync(options.templateFile, "utf-8");
-          spinner.text =
-            "Generating PR description with AI using custom template...";
+          templatePath = options.templateFile;
         } catch (fileError) {
           spinner.fail(
             `Error reading custom template file: ${
@@ -183,44 +604,159 @@ program
           );
           process.exit(1);
         }
+      } else if (templateEntry?.path) {
+        // a named template from the repo, .github or ~/.pr-desc/templates
+        customTemplateContent = readTemplate(templateEntry);
+        templatePath = templateEntry.path;
+      }
+
+      if (customTemplateContent) {
+        // catch template mistakes before spending a model call on them
+        if (hasTemplateTags(customTemplateContent)) {
+          try {
+            parseTemplate(customTemplateContent);
+          } catch (templateError) {
+            spinner.fail(
+              `Invalid template ${templatePath}: ${
+                templateError instanceof Error
+                  ? templateError.message
+                  : "Unknown error"
+              }`
+            );
+            process.exit(1);
+          }
+        }
+        spinner.text =
+          "Generating PR description with AI using custom template...";
       } else {
         spinner.text = "Generating PR description with AI...";
       }
 
-      let description = await generatePRDescription(changes, {
+      let changeSummaries: string | undefined;
+      if (options.multiPass) {
+        const mapReduceOptions = {
+          provider: options.provider,
+          model: options.model,
+          tokenBudget: parsePositiveInt(options.tokenBudget),
+          concurrency: parsePositiveInt(options.concurrency),
+          cache: options.cache,
+          onProgress: (done: number, total: number) => {
+            spinner.text = `Summarizing changes (${done}/${total} groups)...`;
+          },
+        };
+        changeSummaries = await withInterrupt((abortSignal) =>
+          summarizeChanges(changes, { ...mapReduceOptions, abortSignal })
+        );
+        spinner.text = "Generating PR description from summaries...";
+      }
+
+      // Live output while the model writes: framed like the preview for
+      // --dry-run, --gh-pr and --mr, bare on stdout otherwise so pipes only
+      // get the description. Only the default where someone watches it.
+      const stream =
+        options.format !== "json" &&
+        (options.stream ?? Boolean(process.stdout.isTTY));
+      const previewHeading = publish
+        ? "🚀 Generated PR Description Preview"
+        : "🚀 Generated PR Description (Dry Run)";
+      const framed = publish || options.dryRun;
+      const startPrinter = () =>
+        stream
+          ? createTokenPrinter({
+              title: options.title,
+              write: (text) => process.stdout.write(text),
+              onStart: () => {
+                spinner.stop();
+                if (framed) {
+                  console.log("\n" + chalk.blue("═".repeat(60)));
+                  console.log(chalk.bold.cyan(previewHeading));
+                  console.log(chalk.blue("═".repeat(60)) + "\n");
+                }
+              },
+            })
+          : undefined;
+      const finishPrinter = (printer?: TokenPrinter) => {
+        const printed = printer?.finish() ?? false;
+        if (printed && framed) console.log("\n" + chalk.blue("═".repeat(60)));
+        return printed;
+      };
+
+      const generateOptions: GenerateOptions = {
         provider: options.provider,
         model: options.model,
         template: options.template,
         customTemplateContent: customTemplateContent,
-      });
+        maxFiles: Number.parseInt(options.maxFiles || "20"),
+        tokenBudget: parsePositiveInt(options.tokenBudget),
+        changeSummaries,
+        refineFrom: previousBody,
+        incremental: Boolean(previousBody),
+        cache: options.cache,
+        issues: findIssueRefs(
+          changes.headRef,
+          changes.commits,
+          loadIssuesConfig(repoPath)
+        ),
+        onWarning: (warning) => warnAndContinue(spinner, warning),
+      };
+
+      let printer = startPrinter();
+      const onToken = printer?.onToken;
+      let description = await withInterrupt((abortSignal) =>
+        generatePRDescription(changes, {
+          ...generateOptions,
+          onToken,
+          abortSignal,
+        })
+      );
+      let streamed = finishPrinter(printer);
+
+      if (!streamed) spinner.succeed("PR description generated!");
 
-      spinner.succeed("PR description generated!");
+      if (options.title) description.title = options.title;
 
-      let quickSummary = await generateQuickSummary(changes, {
+      let summary = await buildQuickSummary(changes, {
         provider: options.provider,
         model: options.model,
         template: options.template,
         maxFiles: Number.parseInt(options.maxFiles || "20"),
+        tokenBudget: parsePositiveInt(options.tokenBudget),
+        cache: options.cache,
       });
-      if (options.ghPr) {
-        if (!(await isGhCliInstalled())) {
-          spinner.fail(
-            "GitHub CLI ('gh') is not installed. Please install it to create PRs."
-          );
-          return;
-        }
 
+      if (options.format === "json") {
+        const output = buildGenerateOutput(changes, description, summary, {
+          provider: options.provider,
+          model: options.model,
+          template: options.templateFile ? "custom" : options.template,
+          maxFiles: Number.parseInt(options.maxFiles || "20"),
+          tokenBudget: parsePositiveInt(options.tokenBudget),
+          multiPass: options.multiPass,
+          startedAt,
+        });
+        console.log(JSON.stringify(output, null, 2));
+        return;
+      }
+
+      let quickSummary = formatQuickSummary(summary);
+      if (prClient) {
         let proceed = false;
         let regenerate = true;
 
         while (regenerate) {
-          console.log("\n" + chalk.blue("═".repeat(60)));
-          console.log("\n" + (quickSummary ? quickSummary : ""));
-          console.log("\n" + chalk.blue("═".repeat(60)));
-          console.log(chalk.bold.cyan("🚀 Generated PR Description Preview"));
-          console.log(chalk.blue("═".repeat(60)));
-          console.log("\n" + description + "\n");
-          console.log(chalk.blue("═".repeat(60)));
+          if (streamed) {
+            // the description is already on screen
+            console.log("\n" + (quickSummary ? quickSummary : ""));
+            console.log("\n" + chalk.blue("═".repeat(60)));
+          } else {
+            console.log("\n" + chalk.blue("═".repeat(60)));
+            console.log("\n" + (quickSummary ? quickSummary : ""));
+            console.log("\n" + chalk.blue("═".repeat(60)));
+            console.log(chalk.bold.cyan(previewHeading));
+            console.log(chalk.blue("═".repeat(60)));
+            console.log("\n" + formatPRDescription(description) + "\n");
+            console.log(chalk.blue("═".repeat(60)));
+          }
 
           proceed = await confirm({
             message: "Continue with this PR description?",
@@ -240,21 +776,35 @@ program
 
             if (action === "regenerate") {
               spinner.start("Re-generating PR description...");
-              description = await generatePRDescription(changes, {
-                provider: options.provider,
-                model: options.model,
-                template: options.template,
-                customTemplateContent: customTemplateContent,
-                refineFrom: description,
-              });
+              printer = startPrinter();
+              const refineOptions: GenerateOptions = {
+                ...generateOptions,
+                // incremental runs start over from the PR's description
+                refineFrom: previousBody ?? formatPRDescription(description),
+                onToken: printer?.onToken,
+                // a cached answer would just repeat the rejected one
+                cache: false,
+              };
+              description = await withInterrupt((abortSignal) =>
+                generatePRDescription(changes, {
+                  ...refineOptions,
+                  abortSignal,
+                })
+              );
+              streamed = finishPrinter(printer);
 
-              spinner.succeed("PR description re-generated!");
-              quickSummary = await generateQuickSummary(changes, {
+              if (options.title) description.title = options.title;
+
+              if (!streamed) spinner.succeed("PR description re-generated!");
+              summary = await buildQuickSummary(changes, {
                 provider: options.provider,
                 model: options.model,
                 template: options.template,
                 maxFiles: Number.parseInt(options.maxFiles || "20"),
+                tokenBudget: parsePositiveInt(options.tokenBudget),
+                cache: options.cache,
               });
+              quickSummary = formatQuickSummary(summary);
             } else {
               spinner.info("PR creation cancelled.");
               return;
@@ -265,7 +815,10 @@ program
         if (proceed) {
           try {
             spinner.start("Checking for uncommitted changes...");
-            const gitStatus = await runGitCommand(["status", "--porcelain"]);
+            const gitStatus = await runGitCommand(
+              ["status", "--porcelain"],
+              repoPath
+            );
             if (gitStatus.trim().length > 0) {
               spinner.warn(`Unstaged changes found:\n${gitStatus}.\n`);
 
@@ -296,17 +849,21 @@ program
                         "Generating conventional commit message with AI..."
                       );
 
-                      await runGitCommand(["add", "."]);
-                      const stagedChanges = await getGitChanges(
-                        options.base,
-                        Number.parseInt(options.maxFiles || "20"),
-                        "staged"
-                      );
+                      await runGitCommand(["add", "."], repoPath);
+                      const stagedChanges = await getGitChanges(options.base, {
+                        repoPath,
+                        fetch: options.fetch,
+                        mode: "staged",
+                      });
+                      warnRedactions(spinner, stagedChanges);
                       commitMessage = await generateConventionalCommitMessage(
                         stagedChanges,
                         {
                           provider: options.provider,
                           model: options.model,
+                          maxFiles: Number.parseInt(options.maxFiles || "20"),
+                          tokenBudget: parsePositiveInt(options.tokenBudget),
+                          cache: options.cache,
                         }
                       );
                       spinner.succeed("AI commit message generated.");
@@ -336,12 +893,15 @@ program
                       message: "Enter a commit message:",
                       default: "chore: prepare for PR",
                     });
-                    await runGitCommand(["add", "."]);
+                    await runGitCommand(["add", "."], repoPath);
                   }
 
                   spinner.start("Committing changes...");
                   try {
-                    await runGitCommand(["commit", "-m", commitMessage]);
+                    await runGitCommand(
+                      ["commit", "-m", commitMessage],
+                      repoPath
+                    );
                     spinner.succeed(
                       "Changes committed. Continuing PR creation..."
                     );
@@ -354,7 +914,7 @@ program
                 case "stash":
                   spinner.start("Stashing uncommitted changes...");
                   try {
-                    await runGitCommand(["stash"]); // stash the changes
+                    await runGitCommand(["stash"], repoPath); // stash the changes
                     spinner.succeed(
                       "Changes stashed. Continuing PR creation..."
                     );
@@ -378,34 +938,73 @@ program
             process.exit(1);
           }
 
-          const existingPr = await getPRForCurrentBranch(changes.currentBranch);
+          const prName = options.mr ? "MR" : "PR";
+          const prRef = (n: number) => (options.mr ? `!${n}` : `#${n}`);
+          const existingPr = await prClient.getPRForBranch(changes.headRef);
+
+          const labels = [...(options.label ?? [])];
+          if (options.autoLabel !== false && summary.prType) {
+            // only labels that already exist in the repo, gh rejects others
+            const autoLabel = (await prClient.listLabels()).find(
+              (l) => l.toLowerCase() === summary.prType!.toLowerCase()
+            );
+            if (autoLabel && !labels.includes(autoLabel)) {
+              labels.push(autoLabel);
+            }
+          }
+          const prOptions: PROptions = {
+            title: description.title,
+            draft: options.draft,
+            labels,
+            reviewers: options.reviewer,
+            assignees: options.assignee,
+            milestone: options.milestone,
+          };
+
+          // recorded in the body for the next --incremental run
+          const headSha = await runGitCommand(["rev-parse", "HEAD"], repoPath);
 
           if (existingPr) {
-            spinner.start(`Updating PR #${existingPr.number}...`);
-            await updatePR(existingPr.number, description);
+            spinner.start(`Updating ${prName} ${prRef(existingPr.number)}...`);
+            // keep whatever reviewers wrote outside the generated region
+            const body = options.replaceAll
+              ? wrapGenerated(description.body, headSha)
+              : mergeGenerated(
+                  await prClient.getPRBody(existingPr.number),
+                  description.body,
+                  headSha
+                );
+            await prClient.updatePR(existingPr.number, body, prOptions);
             spinner.succeed(
-              `Successfully updated PR #${existingPr.number}: ${existingPr.url}`
+              `Successfully updated ${prName} ${prRef(existingPr.number)}: ${existingPr.url}`
             );
           } else {
             while (true) {
-              spinner.start("Creating PR...");
+              spinner.start(`Creating ${prName}...`);
 
               try {
-                const response = await createPR(description);
-                spinner.succeed(`Successfully created PR: ${response}`);
+                const response = await prClient.createPR(
+                  wrapGenerated(description.body, headSha),
+                  {
+                    ...prOptions,
+                    head: changes.headRef,
+                    base: options.base,
+                  }
+                );
+                spinner.succeed(`Successfully created ${prName}: ${response}`);
                 break;
               } catch (error) {
                 if (error instanceof GhNeedsPushError) {
                   spinner.warn("Your branch is not pushed to origin.");
                   const pushCB = await confirm({
-                    message: `Would you like to push branch '${changes.currentBranch}' to origin?`,
+                    message: `Would you like to push branch '${changes.headRef}' to origin?`,
                     default: true,
                   });
 
                   if (pushCB) {
                     spinner.start("Pushing branch to origin...");
                     try {
-                      await pushCurrentBranch(changes.currentBranch);
+                      await pushCurrentBranch(changes.headRef, repoPath);
                       spinner.succeed(
                         "Successfully pushed to origin! Continuing PR creation..."
                       );
@@ -436,18 +1035,27 @@ program
           }
         }
       } else if (options.dryRun) {
-        console.log("\n" + chalk.blue("═".repeat(60)));
-        console.log("\n" + (quickSummary ? quickSummary : ""));
-        console.log("\n" + chalk.blue("═".repeat(60)));
-        console.log(chalk.bold.cyan("🚀 Generated PR Description (Dry Run)"));
-        console.log(chalk.blue("═".repeat(60)));
-        console.log("\n" + description + "\n");
-        console.log(chalk.blue("═".repeat(60)));
-      } else {
+        if (streamed) {
+          console.log("\n" + (quickSummary ? quickSummary : ""));
+          console.log("\n" + chalk.blue("═".repeat(60)));
+        } else {
+          console.log("\n" + chalk.blue("═".repeat(60)));
+          console.log("\n" + (quickSummary ? quickSummary : ""));
+          console.log("\n" + chalk.blue("═".repeat(60)));
+          console.log(chalk.bold.cyan(previewHeading));
+          console.log(chalk.blue("═".repeat(60)));
+          console.log("\n" + formatPRDescription(description) + "\n");
+          console.log(chalk.blue("═".repeat(60)));
+        }
+      } else if (!streamed) {
         // Pure output for piping to gh
-        console.log(description);
+        console.log(formatPRDescription(description));
       }
     } catch (error) {
+      if (error instanceof CancelledError) {
+        spinner.warn("Cancelled.");
+        process.exit(130);
+      }
       spinner.fail(
         `Error: ${error instanceof Error ? error.message : "Unknown error"}`
       );
@@ -466,37 +1074,47 @@ program
       "Let's configure your preferences for generating PR descriptions.\n"
     );
 
+    await unlockCredentials();
     const currentConfig = loadConfig(true);
 
     const defaultProvider = await select({
       message: "Which AI provider would you like to use by default?",
-      choices: Object.keys(SUPPORTED_MODELS).map((key) => ({
+      choices: listProviders().map((key) => ({
         value: key,
         name: key,
       })),
       default: currentConfig.defaultProvider || "groq",
     });
 
-    let groqApiKey: string | undefined;
-    if (defaultProvider === "groq") {
+    // Ask for a key unless the provider already carries one in the registry
+    // (e.g. `local` or a custom provider with an inline apiKey).
+    let providerApiKey: string | undefined;
+    const existingApiKey = getApiKey(defaultProvider);
+    const registryApiKey = getProviderRegistry()[defaultProvider]?.apiKey;
+    if (existingApiKey || !registryApiKey) {
       // If we already have a key, set default
-      if (getApiKey("groq")) {
-        groqApiKey = await input({
-          message: "Enter your Groq API Key (leave blank to skip):",
-          default: maskApiKey(getApiKey("groq") as string),
+      if (existingApiKey) {
+        providerApiKey = await input({
+          message: `Enter your ${defaultProvider} API Key (leave blank to skip):`,
+          default: maskApiKey(existingApiKey),
         });
+        if (providerApiKey === maskApiKey(existingApiKey)) {
+          providerApiKey = undefined;
+        }
       } else {
-        groqApiKey = await password({
-          message: "Enter your Groq API Key (leave blank to skip):",
+        providerApiKey = await password({
+          message: `Enter your ${defaultProvider} API Key (leave blank to skip):`,
         });
       }
     }
 
     const defaultTemplate = await select({
       message: "Which PR description template style do you prefer by default?",
-      choices: ["standard", "detailed", "minimal"].map((t) => ({
-        value: t,
-        name: t,
+      // the default is global, so repo templates would break other repos
+      choices: listGlobalTemplates().map((t) => ({
+        value: t.name,
+        name: t.name,
+        description: t.description ?? describeTemplateSource(t),
       })),
       default: currentConfig.defaultTemplate || "standard",
     });
@@ -512,8 +1130,15 @@ program
     saveConfig(currentConfig);
 
     // Save API keys if provided
-    if (groqApiKey) {
-      setApiKey("groq", groqApiKey);
+    if (providerApiKey) {
+      await unlockCredentials(true);
+      try {
+        setApiKey(defaultProvider, providerApiKey);
+      } catch (error) {
+        if (!(error instanceof CredentialStoreError)) throw error;
+        console.error(chalk.red(error.message));
+        process.exit(1);
+      }
     }
 
     console.log(chalk.green("\n✅ pr-desc configuration saved successfully!"));
@@ -538,11 +1163,9 @@ program
         console.log(
           chalk.bold.cyan(`Available models for ${options.provider}:`)
         );
+        const defaultModel = getDefaultModel(options.provider);
         models.forEach((model) => {
-          const isDefault =
-            model ===
-            SUPPORTED_MODELS[options.provider as keyof typeof SUPPORTED_MODELS]
-              .default;
+          const isDefault = model === defaultModel;
           console.log(
             `  ${isDefault ? "✓" : " "} ${model}${
               isDefault ? " (default)" : ""
@@ -560,10 +1183,11 @@ program
       console.log(
         chalk.bold.cyan("Available providers and their default models:\n")
       );
-      Object.entries(SUPPORTED_MODELS).forEach(([provider, config]) => {
+      Object.entries(getProviderRegistry()).forEach(([provider, config]) => {
         console.log(chalk.bold(`${provider}:`));
-        console.log(`  Default: ${config.default}`);
-        console.log(`  Options: ${config.options.length} models available`);
+        console.log(`  Base URL: ${config.baseURL}`);
+        console.log(`  Default: ${config.defaultModel}`);
+        console.log(`  Options: ${config.models.length} models available`);
         console.log();
       });
       console.log(
@@ -577,11 +1201,16 @@ program
 program
   .command("config")
   .description("Manage configuration and API keys")
-  .argument("<action>", "Action to perform (set, get, show)")
-  .argument("[provider]", "Provider name (groq, local)")
+  .argument("<action>", "Action to perform (set, get, show, migrate-secrets)")
+  .argument("[provider]", "Provider name (groq, local or a custom provider)")
   .argument("[value]", "API key value (for set action)")
   .option("-u, --unmask", "Unmask the API key", false)
-  .action((action, provider, value, options: CLIConfigOptions) => {
+  .option(
+    "-r, --resolved",
+    "Show the effective settings for this repository and where each comes from",
+    false
+  )
+  .action(async (action, provider, value, options: CLIConfigOptions) => {
     const { unmask } = options;
     switch (action) {
       case "set":
@@ -591,7 +1220,35 @@ program
           );
           process.exit(1);
         }
-        setApiKey(provider, value);
+        await unlockCredentials(true);
+        try {
+          setApiKey(provider, value);
+        } catch (error) {
+          if (!(error instanceof CredentialStoreError)) throw error;
+          console.error(chalk.red(error.message));
+          process.exit(1);
+        }
+        break;
+
+      case "migrate-secrets":
+        if (!(await unlockCredentials(true))) {
+          console.error(
+            chalk.red(
+              `The credential store is locked. Enter its passphrase or set ${PASSPHRASE_ENV}.`
+            )
+          );
+          process.exit(1);
+        }
+        const migrated = migrateSecrets();
+        if (migrated.length) {
+          console.log(
+            chalk.green(
+              `✅ Moved API keys for ${migrated.join(", ")} into the encrypted store`
+            )
+          );
+        } else {
+          console.log("No plain-text API keys to migrate.");
+        }
         break;
 
       case "get":
@@ -599,6 +1256,7 @@ program
           console.error(chalk.red("Usage: pr-desc config get <provider>"));
           process.exit(1);
         }
+        await unlockCredentials();
         const apiKey = getApiKey(provider);
         if (apiKey) {
           console.log(
@@ -610,13 +1268,61 @@ program
         break;
 
       case "show":
+        if (options.resolved) {
+          let resolution;
+          try {
+            resolution = resolveSettings(
+              {},
+              { repoTemplate: getRepoDefaultTemplate() }
+            );
+          } catch (error) {
+            console.error(
+              chalk.red(
+                error instanceof Error ? error.message : "Unknown error"
+              )
+            );
+            process.exit(1);
+          }
+          const { settings, sources, repoConfigPath } = resolution;
+          if (!settings.model) {
+            settings.model = getDefaultModel(settings.provider);
+            sources.model = "default";
+          }
+          console.log(chalk.bold.cyan("Resolved Settings:"));
+          for (const [key, value] of Object.entries(settings)) {
+            const source = sources[key as keyof typeof sources];
+            console.log(
+              `  ${key}: ${Array.isArray(value) ? value.join(", ") : value} ${chalk.dim(`(${source})`)}`
+            );
+          }
+          console.log(
+            chalk.dim(`\nRepository config: ${repoConfigPath ?? "none found"}`)
+          );
+          break;
+        }
         const config = loadConfig(Boolean(unmask));
         console.log(chalk.bold.cyan("Current Configuration:"));
         console.log(JSON.stringify(config, null, 2));
+
+        if (hasEncryptedStore()) {
+          const store = (await unlockCredentials())
+            ? getEncryptedStore()
+            : undefined;
+          console.log(chalk.bold.cyan("\nEncrypted Credentials:"));
+          if (!store) {
+            console.log(chalk.dim("  (locked)"));
+          }
+          for (const name of store?.list() ?? []) {
+            const apiKey = store!.get(name) ?? "";
+            console.log(`  ${name}: ${unmask ? apiKey : maskApiKey(apiKey)}`);
+          }
+        }
         break;
 
       default:
-        console.error(chalk.red("Unknown action. Use: set, get, or show"));
+        console.error(
+          chalk.red("Unknown action. Use: set, get, show, or migrate-secrets")
+        );
         process.exit(1);
     }
   });
@@ -628,10 +1334,41 @@ program
     "Generate an AI conventional commit message (optionally commit immediately)"
   )
   .option("-b, --base <branch>", "Base branch to compare against")
-  .option("-p, --provider <provider>", "AI provider (groq, local)")
+  .option(
+    "--repo <path>",
+    "Path to the git repository (defaults to the current directory)"
+  )
+  .option("--no-fetch", "Skip 'git fetch' before reading changes")
+  .option(
+    "-p, --provider <provider>",
+    "AI provider (groq, local or a custom provider)"
+  )
   .option("-m, --model <model>", "AI model to use")
-  .option("--max-files <number>", "Maximum number of files to analyze", "20")
+  .option(
+    "--max-files <number>",
+    "Maximum number of files to include with full diffs, others are summarized (default: 20)"
+  )
+  .option(
+    "--token-budget <number>",
+    "Token budget for the diff in the prompt (default: based on the model)"
+  )
   .option("--type-hint <type>", "Hint commit type (feat, fix, chore, etc.)")
+  .option(
+    "--body",
+    "Generate a full message with a body explaining why, plus footers",
+    false
+  )
+  .option(
+    "--breaking <description>",
+    "Mark the commit as breaking and add a BREAKING CHANGE footer"
+  )
+  .option("--refs <refs>", 'Add a "Refs:" footer (e.g. "#12, #34")')
+  .option(
+    "--co-author <author>",
+    'Add a "Co-authored-by:" footer (repeatable, e.g. "Jane Doe <jane@example.com>")',
+    (value: string, previous: string[]) => [...previous, value],
+    [] as string[]
+  )
   .option(
     "--no-stage",
     "Do not auto-stage all changes before generating the message"
@@ -641,19 +1378,79 @@ program
     "Automatically create the commit after confirmation",
     false
   )
-  .action(async (options: CLICommitOptions) => {
+  .option("--no-cache", "Don't reuse or store cached AI responses")
+  .option(
+    "--hook <msgfile>",
+    "Non-interactive prepare-commit-msg mode: write the suggestion into <msgfile>"
+  )
+  .option(
+    "--format <format>",
+    "Output format: text or json (json is non-interactive, see `pr-desc schema commit`)",
+    "text"
+  )
+  .argument("[source]", "Commit message source (passed by git in --hook mode)")
+  .argument("[sha]", "Commit sha (passed by git in --hook mode)")
+  .action(async (source, _sha, options: CLICommitOptions) => {
+    if (options.hook) {
+      // Runs inside `git commit`: no prompts, no staging, never fail the commit
+      try {
+        const repoPath = options.repo ? resolve(options.repo) : undefined;
+        const { settings } = resolveSettings(
+          {
+            provider: options.provider,
+            model: options.model,
+            baseBranch: options.base,
+            maxFiles: parsePositiveInt(options.maxFiles),
+          },
+          { repoPath }
+        );
+        await fillCommitMessageFile(options.hook, source || undefined, {
+          base: settings.baseBranch,
+          repoPath,
+          provider: settings.provider,
+          model: settings.model || getDefaultModel(settings.provider),
+          typeHint: options.typeHint,
+          scopes: settings.commitScopes,
+          maxFiles: settings.maxFiles,
+          tokenBudget: parsePositiveInt(options.tokenBudget),
+          body: options.body,
+        });
+      } catch (err) {
+        console.error(
+          `pr-desc: ${err instanceof Error ? err.message : "Unknown error"}`
+        );
+      }
+      process.exit(0);
+    }
+
+    const startedAt = new Date();
     const spinner = ora("Preparing commit context...").start();
     try {
-      const cfg = loadConfig();
-      options.provider = options.provider || cfg.defaultProvider || "groq";
-      options.base = options.base || cfg.defaultBaseBranch || "main";
-      options.model =
-        options.model ||
-        SUPPORTED_MODELS[options.provider as keyof typeof SUPPORTED_MODELS]
-          .default;
+      if (options.format && !["text", "json"].includes(options.format)) {
+        spinner.fail(`Unknown format "${options.format}". Use text or json.`);
+        process.exit(1);
+      }
+      const repoPath = options.repo ? resolve(options.repo) : undefined;
+      const { settings } = resolveSettings(
+        {
+          provider: options.provider,
+          model: options.model,
+          baseBranch: options.base,
+          maxFiles: parsePositiveInt(options.maxFiles),
+        },
+        { repoPath }
+      );
+      options.provider = settings.provider;
+      options.base = settings.baseBranch;
+      options.maxFiles = String(settings.maxFiles);
+      options.model = settings.model || getDefaultModel(options.provider);
+      await unlockCredentialsFor(options.provider, {
+        json: options.format === "json",
+        spinner,
+      });
 
       // Optionally stage all changes
-      const status = await runGitCommand(["status", "--porcelain"]);
+      const status = await runGitCommand(["status", "--porcelain"], repoPath);
       if (!status.trim()) {
         spinner.fail("No changes to commit.");
         return;
@@ -661,25 +1458,64 @@ program
 
       if (options.stage !== false) {
         spinner.text = "Staging changes...";
-        await runGitCommand(["add", "."]);
+        await runGitCommand(["add", "."], repoPath);
       }
 
       spinner.text = "Analyzing changes...";
-      const changes = await getGitChanges(
-        options.base,
-        Number.parseInt(options.maxFiles || "20"),
-        "staged"
-      );
+      const changes = await getGitChanges(options.base, {
+        repoPath,
+        fetch: options.fetch,
+        mode: "staged",
+      });
 
-      spinner.text = "Generating commit message with AI...";
-      let message = await generateConventionalCommitMessage(changes, {
+      // issues named by the branch (commit messages are other commits')
+      const footers = issueFooters(
+        findIssueRefs(changes.headRef, [], loadIssuesConfig(repoPath)),
+        { refs: options.refs }
+      );
+      for (const author of options.coAuthor ?? []) {
+        footers.push(`Co-authored-by: ${author}`);
+      }
+      const messageOptions: CommitMessageOptions = {
         provider: options.provider,
         model: options.model,
         typeHint: options.typeHint,
+        scopes: settings.commitScopes,
         maxFiles: Number.parseInt(options.maxFiles || "20"),
-      });
+        tokenBudget: parsePositiveInt(options.tokenBudget),
+        body: options.body,
+        breaking: options.breaking,
+        footers,
+        cache: options.cache,
+      };
+
+      warnRedactions(spinner, changes);
+      spinner.text = "Generating commit message with AI...";
+      let message = await generateConventionalCommitMessage(
+        changes,
+        messageOptions
+      );
       spinner.succeed("Commit message generated.");
 
+      // No prompts: print the suggestion, committing only with --commit
+      if (options.format === "json") {
+        let committed = false;
+        if (options.commit) {
+          await runGitCommand(["commit", "-m", message], repoPath);
+          committed = true;
+        }
+        const output = buildCommitOutput(changes, message, {
+          provider: options.provider,
+          model: options.model,
+          maxFiles: messageOptions.maxFiles ?? 20,
+          tokenBudget: messageOptions.tokenBudget,
+          startedAt,
+          committed,
+        });
+        console.log(JSON.stringify(output, null, 2));
+        return;
+      }
+
       let accept = false;
       while (!accept) {
         console.log("\n" + chalk.blue("═".repeat(60)));
@@ -692,6 +1528,17 @@ program
           message: "Use this commit message?",
           default: true,
         });
+        if (accept) {
+          const problems = validateConventionalCommit(message);
+          if (problems.length) {
+            spinner.warn(
+              `Commit message does not follow Conventional Commits:\n${problems
+                .map((p) => `  - ${p}`)
+                .join("\n")}`
+            );
+            accept = false;
+          }
+        }
         if (!accept) {
           const action = await select({
             message: "What next?",
@@ -704,19 +1551,34 @@ program
           if (action === "regen") {
             spinner.start("Re-generating commit message...");
             message = await generateConventionalCommitMessage(changes, {
-              provider: options.provider,
-              model: options.model,
-              typeHint: options.typeHint,
-              maxFiles: Number.parseInt(options.maxFiles || "20"),
+              ...messageOptions,
               refineFrom: message,
+              cache: false,
             });
             spinner.succeed("New commit message generated.");
             continue;
           } else if (action === "edit") {
-            message = await input({
-              message: "Edit commit message:",
-              default: message,
-            });
+            // multi-line messages (a body or footers) need a real editor
+            message = message.includes("\n")
+              ? (
+                  await editor({
+                    message: "Edit commit message:",
+                    default: message,
+                  })
+                ).trim()
+              : await input({
+                  message: "Edit commit message:",
+                  default: message,
+                });
+            const problems = validateConventionalCommit(message);
+            if (problems.length) {
+              spinner.warn(
+                `Commit message does not follow Conventional Commits:\n${problems
+                  .map((p) => `  - ${p}`)
+                  .join("\n")}`
+              );
+              continue;
+            }
             accept = true;
           } else {
             console.log(chalk.yellow("Cancelled."));
@@ -731,7 +1593,7 @@ program
       ) {
         spinner.start("Creating commit...");
         try {
-          await runGitCommand(["commit", "-m", message]);
+          await runGitCommand(["commit", "-m", message], repoPath);
           spinner.succeed("Commit created.");
         } catch (err) {
           spinner.fail(
@@ -750,4 +1612,345 @@ program
     }
   });
 
+program
+  .command("hook")
+  .description("Install or remove the git prepare-commit-msg hook")
+  .argument("<action>", "Action to perform (install, uninstall)")
+  .option(
+    "--repo <path>",
+    "Path to the git repository (defaults to the current directory)"
+  )
+  .option("--body", "Suggest full messages with a body and footers", false)
+  .option("--force", "Overwrite an existing hook not installed by pr-desc")
+  .action(async (action, options: CLIHookOptions) => {
+    const repoPath = options.repo ? resolve(options.repo) : undefined;
+    try {
+      switch (action) {
+        case "install": {
+          const hookPath = await installHook({
+            repoPath,
+            force: options.force,
+            extraArgs: options.body ? ["--body"] : [],
+          });
+          console.log(
+            chalk.green(`✅ Installed prepare-commit-msg hook: ${hookPath}`)
+          );
+          console.log(
+            chalk.gray("Run 'git commit' without -m to get an AI suggestion.")
+          );
+          break;
+        }
+        case "uninstall": {
+          const hookPath = await uninstallHook({ repoPath });
+          console.log(
+            hookPath
+              ? chalk.green(`✅ Removed prepare-commit-msg hook: ${hookPath}`)
+              : "No prepare-commit-msg hook installed."
+          );
+          break;
+        }
+        default:
+          console.error(chalk.red("Unknown action. Use: install or uninstall"));
+          process.exit(1);
+      }
+    } catch (err) {
+      console.error(
+        chalk.red(
+          `Error: ${err instanceof Error ? err.message : "Unknown error"}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("changelog")
+  .description(
+    "Generate release notes from conventional commits (Keep a Changelog)"
+  )
+  .option("--from <ref>", "Start of the range (default: latest tag)")
+  .option("--to <ref>", "End of the range", "HEAD")
+  .option(
+    "--repo <path>",
+    "Path to the git repository (defaults to the current directory)"
+  )
+  .option(
+    "--release <name>",
+    "Release name for the heading (default: --to unless it is HEAD, else Unreleased)"
+  )
+  .option("--format <format>", "Output format (markdown, json)", "markdown")
+  .option("--ai", "Rewrite each group into prose with AI", false)
+  .option("-p, --provider <provider>", "AI provider used with --ai")
+  .option("-m, --model <model>", "AI model used with --ai")
+  .option("--no-cache", "Don't reuse or store cached AI responses (with --ai)")
+  .option(
+    "--prepend [file]",
+    "Prepend the release to a changelog file (default: CHANGELOG.md)"
+  )
+  .action(async (options: CLIChangelogOptions) => {
+    const spinner = ora("Reading commits...").start();
+    try {
+      const format = options.format === "json" ? "json" : "markdown";
+      if (options.format && !["markdown", "json"].includes(options.format)) {
+        spinner.fail(
+          `Unknown format "${options.format}". Use markdown or json.`
+        );
+        process.exit(1);
+      }
+      if (format === "json" && options.prepend) {
+        spinner.fail("--prepend only works with markdown output.");
+        process.exit(1);
+      }
+
+      const repoPath = options.repo ? resolve(options.repo) : undefined;
+      const to = options.to || "HEAD";
+      let from = options.from;
+      if (!from) {
+        // for `--to v1.1` the previous tag is the one before v1.1, not v1.1
+        const toIsTag = await runGitCommand(
+          ["rev-parse", "--verify", "--quiet", `refs/tags/${to}`],
+          repoPath
+        ).then(
+          () => true,
+          () => false
+        );
+        try {
+          from = await runGitCommand(
+            ["describe", "--tags", "--abbrev=0", toIsTag ? `${to}^` : to],
+            repoPath
+          );
+        } catch (e) {
+          spinner.fail(
+            "No tags found. Pass the start of the range with --from."
+          );
+          process.exit(1);
+        }
+      }
+
+      const commits = await getCommitLog(from, to, { repoPath });
+      let changelog = buildChangelog(commits, {
+        from,
+        to,
+        release: options.release || (to === "HEAD" ? "Unreleased" : to),
+      });
+
+      if (options.ai && changelog.groups.length) {
+        const { settings } = resolveSettings(
+          { provider: options.provider, model: options.model },
+          { repoPath }
+        );
+        await unlockCredentialsFor(settings.provider, {
+          json: format === "json",
+          spinner,
+        });
+        spinner.text = "Rewriting release notes with AI...";
+        changelog = await rewriteChangelogWithAI(changelog, {
+          provider: settings.provider,
+          model: settings.model || getDefaultModel(settings.provider),
+          cache: options.cache,
+        });
+      }
+
+      spinner.succeed(`Changelog built from ${commits.length} commits.`);
+
+      if (format === "json") {
+        console.log(JSON.stringify(changelog, null, 2));
+        return;
+      }
+
+      const markdown = renderChangelogMarkdown(changelog);
+      if (options.prepend) {
+        const file = resolve(
+          repoPath || process.cwd(),
+          typeof options.prepend === "string" ? options.prepend : "CHANGELOG.md"
+        );
+        prependToChangelogFile(file, markdown);
+        console.log(chalk.green(`✅ Release notes prepended to ${file}`));
+      } else {
+        console.log(markdown); // allow piping
+      }
+    } catch (err) {
+      spinner.fail(
+        `Error: ${err instanceof Error ? err.message : "Unknown error"}`
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("schema")
+  .description("Print the JSON schema of `--format json` output")
+  .argument("<command>", "Command whose output to describe (generate, commit)")
+  .action((command: string) => {
+    if (!(command in OUTPUT_SCHEMAS)) {
+      console.error(
+        chalk.red(
+          `Unknown command "${command}". Use: ${Object.keys(OUTPUT_SCHEMAS).join(", ")}`
+        )
+      );
+      process.exit(1);
+    }
+    console.log(
+      JSON.stringify(OUTPUT_SCHEMAS[command as OutputSchemaKind], null, 2)
+    );
+  });
+
+program
+  .command("cache")
+  .description("Show or clear the AI response cache (~/.pr-desc/cache)")
+  .argument("<action>", "Action to perform (stats, clear)")
+  .action((action: string) => {
+    const formatSize = (bytes: number) =>
+      bytes < 1024 * 1024
+        ? `${(bytes / 1024).toFixed(1)} KB`
+        : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+    switch (action) {
+      case "stats": {
+        const stats = getCacheStats();
+        console.log(chalk.bold.cyan("Response Cache:"));
+        console.log(`  path: ${stats.path}`);
+        console.log(`  entries: ${stats.entries}`);
+        console.log(
+          `  size: ${formatSize(stats.bytes)} of ${stats.maxSizeMB} MB`
+        );
+        console.log(`  ttl: ${stats.ttlHours} hours`);
+        if (stats.oldest && stats.newest) {
+          console.log(
+            `  last used: ${stats.oldest.toLocaleString()} – ${stats.newest.toLocaleString()}`
+          );
+        }
+        break;
+      }
+
+      case "clear": {
+        const { entries, bytes } = clearCache();
+        console.log(
+          chalk.green(
+            `✅ Removed ${entries} cached responses (${formatSize(bytes)})`
+          )
+        );
+        break;
+      }
+
+      default:
+        console.error(chalk.red("Unknown action. Use: stats or clear"));
+        process.exit(1);
+    }
+  });
+
+program
+  .command("templates")
+  .description(
+    "List, show or create PR templates (repo config, .github, ~/.pr-desc/templates, built-in)"
+  )
+  .argument("<action>", "Action to perform (list, show, new)")
+  .argument("[name]", "Template name (for show and new)")
+  .option("--from <template>", "Start the new template from this one")
+  .option(
+    "--github",
+    "Create the template in this repo's .github/PULL_REQUEST_TEMPLATE/ instead of ~/.pr-desc/templates/",
+    false
+  )
+  .option(
+    "--repo <path>",
+    "Path to the git repository (defaults to the current directory)"
+  )
+  .action(
+    (
+      action: string,
+      name: string | undefined,
+      options: CLITemplatesOptions
+    ) => {
+      const repoPath = options.repo ? resolve(options.repo) : undefined;
+
+      try {
+        switch (action) {
+          case "list": {
+            const templates = listTemplates(repoPath);
+            const { settings, sources } = resolveSettings(
+              {},
+              { repoPath, repoTemplate: getRepoDefaultTemplate(repoPath) }
+            );
+            const width = Math.max(...templates.map((t) => t.name.length));
+            console.log(chalk.bold.cyan("PR Templates:"));
+            for (const template of templates) {
+              const source = describeTemplateSource(template, repoPath);
+              const description = template.description
+                ? ` – ${template.description}`
+                : "";
+              let mark = "";
+              if (template.name === settings.template) {
+                mark =
+                  sources.template === "default"
+                    ? " (default)"
+                    : ` (default, from ${sources.template})`;
+              }
+              console.log(
+                `  ${template.name.padEnd(width)}  ${chalk.dim(
+                  source + description
+                )}${chalk.green(mark)}`
+              );
+            }
+            break;
+          }
+
+          case "show": {
+            if (!name) {
+              console.error(chalk.red("Usage: pr-desc templates show <name>"));
+              process.exit(1);
+            }
+            const template = findTemplate(name, repoPath);
+            if (!template) {
+              console.error(
+                chalk.red(
+                  `Unknown template "${name}". Run 'pr-desc templates list' to see the available ones.`
+                )
+              );
+              process.exit(1);
+            }
+            // the source goes to stderr so stdout is just the Markdown
+            console.error(
+              chalk.dim(`# ${describeTemplateSource(template, repoPath)}\n`)
+            );
+            console.log(readTemplate(template));
+            break;
+          }
+
+          case "new": {
+            if (!name) {
+              console.error(
+                chalk.red(
+                  "Usage: pr-desc templates new <name> [--from <template>] [--github]"
+                )
+              );
+              process.exit(1);
+            }
+            const path = createTemplate(name, {
+              from: options.from,
+              github: options.github,
+              repoPath,
+            });
+            console.log(chalk.green(`✅ Created ${path}`));
+            console.log(
+              chalk.gray(
+                `Edit it, then run 'pr-desc generate --template ${name}'.`
+              )
+            );
+            break;
+          }
+
+          default:
+            console.error(chalk.red("Unknown action. Use: list, show or new"));
+            process.exit(1);
+        }
+      } catch (error) {
+        console.error(
+          chalk.red(error instanceof Error ? error.message : "Unknown error")
+        );
+        process.exit(1);
+      }
+    }
+  );
+
 program.parse();
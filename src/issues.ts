@@ -0,0 +1,179 @@
+import type { CommitInfo, IssueRef, IssuesConfig } from "./types.js";
+import { findRepoConfig, loadConfig } from "./config.js";
+
+// Issue keys are picked out of the branch name and commit messages so the
+// "Related Issues" section and commit footers don't depend on the model
+// noticing them. Links come from URL templates in the config.
+
+interface IssueTracker {
+  name: string;
+  pattern: RegExp;
+  url?: string;
+}
+
+const BUILTIN_PATTERNS: Record<string, string> = {
+  // PROJ-123; uppercase only, so "feat/fix-123" isn't taken for a key. Only
+  // on once Jira is configured, see getTrackers.
+  jira: "\\b[A-Z][A-Z0-9]+-[1-9][0-9]*\\b",
+  // #123, but not "&#123;" or "owner/repo#123"
+  github: "(?<![\\w&/#])#([1-9][0-9]*)\\b",
+};
+
+// Prefixes of things that look like Jira keys but aren't (UTF-8, SHA-256...)
+const NOT_ISSUE_KEYS = /^(UTF|SHA|ISO|RFC|HTTP|TLS|SSL|AES|RSA|CVE|MD|ES)-/;
+
+// "issue-12-title" or "feat/gh-12-title" names the issue the branch closes
+const BRANCH_ISSUE_NUMBER = /(?:^|\/)(?:issues?|gh)[-_]([1-9][0-9]*)(?![0-9])/i;
+// GitHub and GitLab name branches created from an issue "123-title". A bare
+// number could just as well be a year or a version, so it only closes the
+// issue with `closeBranchNumber`.
+const BRANCH_LEADING_NUMBER = /^([1-9][0-9]*)[-_]/;
+
+// "fixes #12" in a commit message closes the issue, like it does on GitHub
+const CLOSING_KEYWORD = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s*$/i;
+
+// Global config, with a repository's .prdescrc.json on top (URL templates
+// usually belong to the repo).
+export function loadIssuesConfig(repoPath?: string): IssuesConfig {
+  const global = loadConfig().issues ?? {};
+  const repo = findRepoConfig(repoPath)?.config.issues ?? {};
+  return {
+    patterns: { ...global.patterns, ...repo.patterns },
+    urls: { ...global.urls, ...repo.urls },
+    disable: repo.disable ?? global.disable,
+    jiraProjects: repo.jiraProjects ?? global.jiraProjects,
+    closeBranchNumber: repo.closeBranchNumber ?? global.closeBranchNumber,
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getTrackers(config: IssuesConfig): IssueTracker[] {
+  const patterns: Record<string, string> = { ...BUILTIN_PATTERNS };
+  // Too many things look like Jira keys (GPT-4, ECMA-262), so Jira only
+  // matches once the repo says it uses Jira: a URL template or its projects.
+  if (config.jiraProjects?.length) {
+    const keys = config.jiraProjects.map(escapeRegExp).join("|");
+    patterns.jira = `\\b(?:${keys})-[1-9][0-9]*\\b`;
+  } else if (!config.urls?.jira) {
+    delete patterns.jira;
+  }
+  Object.assign(patterns, config.patterns);
+  return Object.entries(patterns)
+    .filter(([name]) => !config.disable?.includes(name))
+    .map(([name, source]) => {
+      try {
+        return {
+          name,
+          pattern: new RegExp(source, "g"),
+          url: config.urls?.[name],
+        };
+      } catch (error) {
+        throw new Error(
+          `Invalid issue pattern "${name}" in config: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+    });
+}
+
+function toRef(
+  tracker: IssueTracker,
+  key: string,
+  id: string,
+  closes: boolean
+): IssueRef {
+  const ref: IssueRef = { tracker: tracker.name, key, id, closes };
+  if (tracker.url) ref.url = tracker.url.replace(/\{id\}/g, id);
+  return ref;
+}
+
+// Issue references in the branch name and commit messages, in order of
+// appearance. `#N` issues named explicitly by the branch ("gh-12-title",
+// "#12"), or by a "fixes #N" commit, are marked as closed by the change;
+// everything else is only referenced.
+export function findIssueRefs(
+  branch: string,
+  commits: Pick<CommitInfo, "message" | "body">[],
+  config: IssuesConfig = {}
+): IssueRef[] {
+  const trackers = getTrackers(config);
+  const refs = new Map<string, IssueRef>();
+  const add = (ref: IssueRef) => {
+    const existing = refs.get(ref.key);
+    if (existing) existing.closes ||= ref.closes;
+    else refs.set(ref.key, ref);
+  };
+
+  const scan = (text: string, fromBranch: boolean) => {
+    for (const tracker of trackers) {
+      for (const match of text.matchAll(tracker.pattern)) {
+        const key = match[0].trim();
+        if (NOT_ISSUE_KEYS.test(key)) continue;
+        const closes =
+          tracker.name === "github" &&
+          (fromBranch || CLOSING_KEYWORD.test(text.slice(0, match.index ?? 0)));
+        add(toRef(tracker, key, match[1] ?? key, closes));
+      }
+    }
+  };
+
+  scan(branch, true);
+  const github = trackers.find((t) => t.name === "github");
+  const branchIssue = branch.match(BRANCH_ISSUE_NUMBER)?.[1];
+  const leadingNumber = branch.match(BRANCH_LEADING_NUMBER)?.[1];
+  if (github && branchIssue) {
+    add(toRef(github, `#${branchIssue}`, branchIssue, true));
+  } else if (github && leadingNumber) {
+    const closes = Boolean(config.closeBranchNumber);
+    add(toRef(github, `#${leadingNumber}`, leadingNumber, closes));
+  }
+  for (const commit of commits) {
+    scan([commit.message, commit.body].filter(Boolean).join("\n"), false);
+  }
+
+  return Array.from(refs.values());
+}
+
+export function formatIssueRef(ref: IssueRef, links: boolean): string {
+  return links && ref.url ? `[${ref.key}](${ref.url})` : ref.key;
+}
+
+// "Closes #12" for each closed issue and one "Refs: A, B" line for the rest.
+// `links` turns keys with a URL template into Markdown links (PR bodies);
+// commit trailers stay plain. `refs` is merged into the "Refs:" line.
+export function issueFooters(
+  issues: IssueRef[],
+  options: { links?: boolean; refs?: string } = {}
+): string[] {
+  const footers = issues
+    .filter((ref) => ref.closes)
+    .map((ref) => `Closes ${formatIssueRef(ref, Boolean(options.links))}`);
+
+  const referenced = [
+    ...(options.refs ? [options.refs] : []),
+    ...issues
+      .filter((ref) => !ref.closes && !options.refs?.includes(ref.key))
+      .map((ref) => formatIssueRef(ref, Boolean(options.links))),
+  ];
+  if (referenced.length) footers.push(`Refs: ${referenced.join(", ")}`);
+  return footers;
+}
+
+// Issues the text doesn't mention yet; a closed issue needs a closing
+// keyword in front of it, otherwise GitHub won't close it on merge.
+export function missingIssueRefs(text: string, issues: IssueRef[]): IssueRef[] {
+  return issues.filter((ref) => {
+    const key = escapeRegExp(ref.key);
+    const pattern = ref.closes
+      ? new RegExp(
+          `\\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\\s*:?\\s*\\[?${key}(?![\\w-])`,
+          "i"
+        )
+      : new RegExp(`(?<![\\w-])${key}(?![\\w-])`);
+    return !pattern.test(text);
+  });
+}
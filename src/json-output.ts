@@ -0,0 +1,333 @@
+import type {
+  CommitJsonOutput,
+  FileAnalysis,
+  GenerateJsonOutput,
+  GitChanges,
+  JsonOutputBase,
+  PRDescription,
+  QuickSummary,
+} from "./types.js";
+import { packChangesForModel } from "./diff-packer.js";
+import { packChangeGroups } from "./map-reduce.js";
+import {
+  parseConventionalCommit,
+  splitCommitMessage,
+  splitMarkdownSections,
+  validateConventionalCommit,
+} from "./utils.js";
+
+// JSON Schemas (draft 2020-12) for `--format json`. They mirror GitChanges
+// and the *JsonOutput types in types.ts; keep them in sync and bump
+// schemaVersion on breaking changes. Printed by `pr-desc schema <kind>`.
+const $defs = {
+  fileStatus: {
+    enum: [
+      "added",
+      "deleted",
+      "modified",
+      "renamed",
+      "copied",
+      "binary",
+      "unknown",
+    ],
+  },
+  gitStats: {
+    type: "object",
+    required: ["insertions", "deletions", "filesChanged"],
+    properties: {
+      insertions: { type: "integer", minimum: 0 },
+      deletions: { type: "integer", minimum: 0 },
+      filesChanged: { type: "integer", minimum: 0 },
+    },
+  },
+  commit: {
+    type: "object",
+    required: ["hash", "message"],
+    properties: {
+      hash: { type: "string" },
+      message: { type: "string" },
+    },
+  },
+  fileAnalysis: {
+    type: "object",
+    required: ["path", "status", "additions", "deletions", "included"],
+    properties: {
+      path: { type: "string" },
+      status: { $ref: "#/$defs/fileStatus" },
+      additions: { type: "integer", minimum: 0 },
+      deletions: { type: "integer", minimum: 0 },
+      oldPath: { type: "string" },
+      included: {
+        enum: ["full", "trimmed", "summary", "ignored"],
+        description: "How much of the file's diff was sent to the model",
+      },
+      omittedHunks: { type: "integer", minimum: 1 },
+      redacted: {
+        type: "array",
+        items: { type: "string" },
+        description: "Secret detectors that scrubbed parts of the patch",
+      },
+    },
+  },
+};
+
+const baseProperties = {
+  schemaVersion: { const: 1 },
+  provider: { type: "string" },
+  model: { type: "string" },
+  changes: {
+    type: "object",
+    required: ["baseRef", "headRef", "stats", "commits"],
+    properties: {
+      baseRef: { type: "string" },
+      headRef: { type: "string" },
+      mode: { enum: ["branch", "staged", "range", "commit"] },
+      stats: { $ref: "#/$defs/gitStats" },
+      commits: { type: "array", items: { $ref: "#/$defs/commit" } },
+    },
+  },
+  files: {
+    type: "object",
+    required: [
+      "total",
+      "analyzed",
+      "truncated",
+      "summarized",
+      "ignored",
+      "multiPass",
+      "details",
+    ],
+    properties: {
+      total: { type: "integer", minimum: 0 },
+      analyzed: { type: "integer", minimum: 0 },
+      truncated: { type: "integer", minimum: 0 },
+      summarized: { type: "integer", minimum: 0 },
+      ignored: { type: "integer", minimum: 0 },
+      multiPass: { type: "boolean" },
+      details: { type: "array", items: { $ref: "#/$defs/fileAnalysis" } },
+    },
+  },
+  timing: {
+    type: "object",
+    required: ["startedAt", "durationMs"],
+    properties: {
+      startedAt: { type: "string", format: "date-time" },
+      durationMs: { type: "integer", minimum: 0 },
+    },
+  },
+};
+const baseRequired = [
+  "kind",
+  "schemaVersion",
+  "provider",
+  "model",
+  "changes",
+  "files",
+  "timing",
+];
+
+export const OUTPUT_SCHEMAS = {
+  generate: {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $id: "urn:pr-desc:generate-output:1",
+    title: "pr-desc generate --format json",
+    type: "object",
+    required: [...baseRequired, "body", "sections", "template"],
+    properties: {
+      kind: { const: "pr-description" },
+      ...baseProperties,
+      title: { type: "string" },
+      body: { type: "string", description: "Markdown without the title" },
+      sections: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["heading", "content"],
+          properties: {
+            heading: { type: "string" },
+            content: { type: "string" },
+          },
+        },
+      },
+      content: {
+        type: "object",
+        description:
+          "Structured sections the body was rendered from (built-in templates only)",
+        required: [
+          "title",
+          "summary",
+          "changes",
+          "rationale",
+          "testing",
+          "breakingChanges",
+          "relatedIssues",
+        ],
+        properties: {
+          title: { type: "string" },
+          summary: { type: "string" },
+          changes: { type: "array", items: { type: "string" } },
+          rationale: { type: "string" },
+          technicalDetails: { type: "string" },
+          testing: { type: "array", items: { type: "string" } },
+          breakingChanges: { type: "array", items: { type: "string" } },
+          relatedIssues: { type: "array", items: { type: "string" } },
+          notes: { type: "string" },
+          sinceLastReview: { type: "array", items: { type: "string" } },
+        },
+      },
+      template: { type: "string" },
+      suggestedCommit: { type: "string" },
+      prType: { type: "string" },
+    },
+    $defs,
+  },
+  commit: {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    $id: "urn:pr-desc:commit-output:1",
+    title: "pr-desc commit --format json",
+    type: "object",
+    required: [
+      ...baseRequired,
+      "message",
+      "header",
+      "footers",
+      "breaking",
+      "problems",
+      "committed",
+    ],
+    properties: {
+      kind: { const: "commit-message" },
+      ...baseProperties,
+      message: { type: "string" },
+      header: { type: "string" },
+      body: { type: "string" },
+      footers: { type: "array", items: { type: "string" } },
+      type: { type: "string" },
+      scope: { type: "string" },
+      breaking: { type: "boolean" },
+      problems: { type: "array", items: { type: "string" } },
+      committed: { type: "boolean" },
+    },
+    $defs,
+  },
+};
+
+export type OutputSchemaKind = keyof typeof OUTPUT_SCHEMAS;
+
+interface OutputContext {
+  provider: string;
+  model: string;
+  maxFiles: number;
+  tokenBudget?: number;
+  multiPass?: boolean;
+  startedAt: Date;
+}
+
+function buildBase(
+  changes: GitChanges,
+  context: OutputContext
+): Omit<JsonOutputBase, "schemaVersion"> {
+  // Re-run the (deterministic) packer to report what the model was sent.
+  // Multi-pass runs pack each group for its own map call.
+  const packed = context.multiPass
+    ? packChangeGroups(changes, {
+        provider: context.provider,
+        model: context.model,
+        tokenBudget: context.tokenBudget,
+      })
+    : packChangesForModel(changes, {
+        provider: context.provider,
+        model: context.model,
+        maxFiles: context.maxFiles,
+        tokenBudget: context.tokenBudget,
+      }).files;
+  const packedByPath = new Map(packed.map((f) => [f.path, f]));
+
+  const details: FileAnalysis[] = changes.files.map((file) => {
+    const packedFile = packedByPath.get(file.path);
+    return {
+      path: file.path,
+      status: file.status,
+      additions: file.additions,
+      deletions: file.deletions,
+      oldPath: file.oldPath,
+      included: file.ignored ? "ignored" : (packedFile?.mode ?? "summary"),
+      omittedHunks: packedFile?.omittedHunks,
+      redacted: file.redacted,
+    };
+  });
+  const count = (mode: FileAnalysis["included"]) =>
+    details.filter((d) => d.included === mode).length;
+
+  return {
+    provider: context.provider,
+    model: context.model,
+    changes: {
+      baseRef: changes.baseRef,
+      headRef: changes.headRef,
+      mode: changes.mode,
+      stats: changes.stats,
+      commits: changes.commits.map(({ hash, message }) => ({ hash, message })),
+    },
+    files: {
+      total: details.length,
+      analyzed: count("full"),
+      truncated: count("trimmed"),
+      summarized: count("summary"),
+      ignored: count("ignored"),
+      multiPass: Boolean(context.multiPass),
+      details,
+    },
+    timing: {
+      startedAt: context.startedAt.toISOString(),
+      durationMs: Date.now() - context.startedAt.getTime(),
+    },
+  };
+}
+
+export function buildGenerateOutput(
+  changes: GitChanges,
+  description: PRDescription,
+  summary: QuickSummary,
+  context: OutputContext & { template: string }
+): GenerateJsonOutput {
+  return {
+    kind: "pr-description",
+    schemaVersion: 1,
+    ...buildBase(changes, context),
+    title: description.title,
+    body: description.body,
+    sections: splitMarkdownSections(description.body).sections,
+    content: description.content,
+    template: context.template,
+    suggestedCommit: summary.suggestedCommit,
+    prType: summary.prType,
+  };
+}
+
+export function buildCommitOutput(
+  changes: GitChanges,
+  message: string,
+  context: OutputContext & { committed: boolean }
+): CommitJsonOutput {
+  const parts = splitCommitMessage(message);
+  const parsed = parseConventionalCommit(
+    parts.header,
+    parts.footers.join("\n")
+  );
+
+  return {
+    kind: "commit-message",
+    schemaVersion: 1,
+    ...buildBase(changes, context),
+    message,
+    header: parts.header,
+    body: parts.body || undefined,
+    footers: parts.footers,
+    type: parsed?.type,
+    scope: parsed?.scope,
+    breaking: parsed?.breaking ?? false,
+    problems: validateConventionalCommit(message),
+    committed: context.committed,
+  };
+}
@@ -0,0 +1,292 @@
+import { generateText, type LanguageModel } from "ai";
+import type { FileChange, GitChanges, PackedFile } from "./types.js";
+import { getAIModel, getDefaultModel } from "./models.js";
+import {
+  describeIgnoredFiles,
+  estimateTokens,
+  getTokenBudgetForModel,
+  packDiff,
+} from "./diff-packer.js";
+import { describeFileStatus, mapWithConcurrency } from "./utils.js";
+import { withCache } from "./cache.js";
+
+export interface FileGroup {
+  label: string;
+  files: FileChange[];
+}
+
+export interface MapReduceOptions {
+  provider: string;
+  model?: string;
+  tokenBudget?: number;
+  concurrency?: number;
+  onProgress?: (done: number, total: number) => void;
+  cache?: boolean; // false skips the response cache
+  abortSignal?: AbortSignal;
+}
+
+// Ollama serves one request at a time by default, hosted providers have rate
+// limits; keep both well under what they tolerate.
+const DEFAULT_CONCURRENCY: Record<string, number> = { local: 1 };
+const FALLBACK_CONCURRENCY = 3;
+const MAX_REDUCE_PASSES = 3;
+
+export function getDefaultConcurrency(provider: string): number {
+  return DEFAULT_CONCURRENCY[provider] ?? FALLBACK_CONCURRENCY;
+}
+
+function directoryKey(path: string, depth = 2): string {
+  const parts = path.split("/").slice(0, -1);
+  return parts.length ? parts.slice(0, depth).join("/") : ".";
+}
+
+function fileCost(file: FileChange, model?: string): number {
+  return estimateTokens(`FILE: ${file.path}\n${file.patch ?? ""}`, model);
+}
+
+// Group files by directory, splitting directories that are too large for one
+// call and merging neighbouring small ones to keep the number of calls down.
+export function groupFiles(
+  files: FileChange[],
+  budget: number,
+  model?: string
+): FileGroup[] {
+  const byDirectory = new Map<string, FileChange[]>();
+  for (const file of files) {
+    const key = directoryKey(file.path);
+    byDirectory.set(key, [...(byDirectory.get(key) || []), file]);
+  }
+
+  const groups: (FileGroup & { cost: number })[] = [];
+  for (const [directory, dirFiles] of byDirectory) {
+    let current: FileChange[] = [];
+    let used = 0;
+    let part = 1;
+    const pushGroup = () => {
+      if (!current.length) return;
+      groups.push({
+        label: part > 1 ? `${directory} (part ${part})` : directory,
+        files: current,
+        cost: used,
+      });
+      part++;
+      current = [];
+      used = 0;
+    };
+
+    for (const file of dirFiles) {
+      const cost = fileCost(file, model);
+      if (current.length && used + cost > budget) pushGroup();
+      current.push(file);
+      used += cost;
+    }
+    pushGroup();
+  }
+
+  const merged: (FileGroup & { cost: number })[] = [];
+  for (const group of groups) {
+    const last = merged[merged.length - 1];
+    if (last && last.cost + group.cost <= budget) {
+      last.label = `${last.label}, ${group.label}`;
+      last.files = [...last.files, ...group.files];
+      last.cost += group.cost;
+    } else {
+      merged.push({ ...group });
+    }
+  }
+
+  return merged.map(({ label, files }) => ({ label, files }));
+}
+
+// How each file went into its group's map call (full, trimmed or only
+// listed). Grouping and packing are deterministic, so --format json can
+// report this after the run, like packChangesForModel for single-pass runs.
+export function packChangeGroups(
+  changes: GitChanges,
+  options: { provider: string; model?: string; tokenBudget?: number }
+): PackedFile[] {
+  const modelName = options.model || getDefaultModel(options.provider);
+  const budget = getTokenBudgetForModel(options);
+  return groupFiles(
+    changes.files.filter((f) => !f.ignored),
+    budget,
+    modelName
+  ).flatMap(
+    (group) => packDiff(group.files, { model: modelName, budget }).files
+  );
+}
+
+type Summarize = (prompt: string) => Promise<string>;
+
+async function summarizeText(
+  model: LanguageModel,
+  prompt: string,
+  abortSignal?: AbortSignal
+): Promise<string> {
+  const res = await generateText({
+    model,
+    prompt,
+    temperature: 0.2,
+    maxTokens: 300,
+    abortSignal,
+  });
+  return res.text.trim();
+}
+
+function groupHeading(group: FileGroup): string {
+  return `### ${group.label} (${group.files.length} file${
+    group.files.length === 1 ? "" : "s"
+  })`;
+}
+
+// Map step: one call per group. A failed call degrades to the file list
+// instead of failing the whole run.
+async function summarizeGroup(
+  summarize: Summarize,
+  group: FileGroup,
+  budget: number,
+  modelName: string
+): Promise<string> {
+  const packed = packDiff(group.files, { model: modelName, budget });
+  const prompt = `You are an expert software engineer reviewing one part of a larger pull request.
+Summarize the changes below for "${group.label}" in 2-6 concise bullet points.
+Focus on what changed and why it matters; mention notable files by name.
+Return *only* the bullet points, no headings or meta text.
+
+<diff>
+${packed.text}
+</diff>
+`;
+
+  let summary = "";
+  try {
+    summary = await summarize(prompt);
+  } catch (err) {
+    summary = "";
+  }
+
+  if (!summary) {
+    summary = group.files
+      .map(
+        (f) =>
+          `- ${f.path} (${describeFileStatus(f)}, +${f.additions} -${f.deletions})`
+      )
+      .join("\n");
+  }
+
+  return `${groupHeading(group)}\n${summary}`;
+}
+
+// Reduce step: if the partial summaries still don't fit, condense them in
+// batches until they do (or we run out of passes).
+async function condenseSummaries(
+  summarize: Summarize,
+  summaries: string[],
+  budget: number,
+  modelName: string,
+  concurrency: number
+): Promise<string[]> {
+  let current = summaries;
+
+  for (let pass = 0; pass < MAX_REDUCE_PASSES; pass++) {
+    const total = estimateTokens(current.join("\n\n"), modelName);
+    if (total <= budget || current.length <= 1) break;
+
+    const batches: string[][] = [];
+    let batch: string[] = [];
+    let used = 0;
+    for (const summary of current) {
+      const cost = estimateTokens(summary, modelName);
+      if (batch.length && used + cost > budget) {
+        batches.push(batch);
+        batch = [];
+        used = 0;
+      }
+      batch.push(summary);
+      used += cost;
+    }
+    if (batch.length) batches.push(batch);
+
+    // nothing to gain if every summary already sits in its own batch
+    if (batches.length === current.length) break;
+
+    current = await mapWithConcurrency(batches, concurrency, async (b) => {
+      const prompt = `Condense the following partial pull request summaries into one shorter summary.
+Keep the "###" area headings, merge overlapping points and drop minor details.
+Return *only* the condensed summary.
+
+${b.join("\n\n")}
+`;
+      try {
+        return (await summarize(prompt)) || b.join("\n\n");
+      } catch (err) {
+        return b.join("\n\n");
+      }
+    });
+  }
+
+  return current;
+}
+
+// Summarize every file of a (large) change set in several passes and return
+// text that can stand in for the raw diff in the final PR prompt.
+export async function summarizeChanges(
+  changes: GitChanges,
+  options: MapReduceOptions
+): Promise<string> {
+  const modelName = options.model || getDefaultModel(options.provider);
+  const model = await getAIModel(options.provider, options.model);
+  const summarize: Summarize = async (prompt) =>
+    (
+      await withCache(
+        {
+          provider: options.provider,
+          model: options.model,
+          temperature: 0.2,
+          prompt,
+        },
+        options.cache,
+        () => summarizeText(model, prompt, options.abortSignal)
+      )
+    ).value;
+  const budget = getTokenBudgetForModel(options);
+  const concurrency =
+    options.concurrency ?? getDefaultConcurrency(options.provider);
+
+  const groups = groupFiles(
+    changes.files.filter((f) => !f.ignored),
+    budget,
+    modelName
+  );
+  let done = 0;
+  options.onProgress?.(done, groups.length);
+
+  const summaries = await mapWithConcurrency(
+    groups,
+    concurrency,
+    async (group) => {
+      const summary = await summarizeGroup(summarize, group, budget, modelName);
+      options.onProgress?.(++done, groups.length);
+      return summary;
+    }
+  );
+
+  // aborted calls fail fast and degrade like any other failed call; only
+  // here do they become the cancellation
+  options.abortSignal?.throwIfAborted();
+
+  const condensed = await condenseSummaries(
+    summarize,
+    summaries,
+    budget,
+    modelName,
+    concurrency
+  );
+  options.abortSignal?.throwIfAborted();
+
+  const ignored = describeIgnoredFiles(changes.files);
+  return `Per-area summaries of all ${changes.files.length} changed files:\n\n${[
+    ...condensed,
+    ...(ignored ? [ignored] : []),
+  ].join("\n\n")}`;
+}
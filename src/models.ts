@@ -1,6 +1,6 @@
 import { createOpenAI } from "@ai-sdk/openai";
-import { getApiKey } from "./config.js";
-import type { SupportedProviders } from "./types.js";
+import { getApiKey, loadConfig } from "./config.js";
+import type { ProviderConfig, SupportedProviders } from "./types.js";
 
 export const SUPPORTED_MODELS = {
   groq: {
@@ -38,23 +38,90 @@ export const SUPPORTED_MODELS = {
   },
 } as const;
 
-export function getDefaultModel(provider: string): string {
-  const providerModels =
-    SUPPORTED_MODELS[provider as keyof typeof SUPPORTED_MODELS];
-  if (!providerModels) {
-    throw new Error(`Unsupported provider: ${provider}`);
+// Built-in providers. Entries under `providers` in ~/.pr-desc/config.json are
+// merged on top of these, so a user can add new OpenAI-compatible endpoints
+// (vLLM, LM Studio, ...) or point `local` at a different Ollama host.
+const BUILTIN_PROVIDERS: SupportedProviders = {
+  groq: {
+    baseURL: "https://api.groq.com/openai/v1",
+    defaultModel: SUPPORTED_MODELS.groq.default,
+    models: SUPPORTED_MODELS.groq.options.slice(),
+    verifyModels: true,
+  },
+  local: {
+    baseURL: "http://localhost:11434/v1",
+    apiKey: "ollama",
+    defaultModel: SUPPORTED_MODELS.local.default,
+    models: SUPPORTED_MODELS.local.options.slice(),
+  },
+};
+
+// Build the provider registry from the built-in providers and the user config.
+export function getProviderRegistry(): SupportedProviders {
+  const config = loadConfig(true);
+  const registry: SupportedProviders = {};
+
+  for (const [name, builtin] of Object.entries(BUILTIN_PROVIDERS)) {
+    registry[name] = { ...builtin, models: builtin.models.slice() };
   }
-  return providerModels.default;
+
+  for (const [name, userProvider] of Object.entries(config.providers || {})) {
+    const base = registry[name];
+    const models = userProvider.models ?? base?.models ?? [];
+    const defaultModel =
+      userProvider.defaultModel ?? base?.defaultModel ?? models[0];
+    const baseURL = userProvider.baseURL ?? base?.baseURL;
+
+    if (!baseURL) {
+      console.warn(`Warning: Provider "${name}" has no baseURL, skipping it`);
+      continue;
+    }
+    if (!defaultModel) {
+      console.warn(
+        `Warning: Provider "${name}" has no defaultModel or models, skipping it`
+      );
+      continue;
+    }
+
+    registry[name] = {
+      baseURL: baseURL.replace(/\/+$/, ""),
+      apiKey: userProvider.apiKey ?? base?.apiKey,
+      defaultModel,
+      models: models.includes(defaultModel)
+        ? models
+        : [defaultModel, ...models],
+      verifyModels: userProvider.verifyModels ?? base?.verifyModels ?? false,
+      contextWindow: userProvider.contextWindow ?? base?.contextWindow,
+    };
+  }
+
+  // Keys stored with `pr-desc config set <provider> <key>` win over the
+  // registry defaults.
+  for (const [name, provider] of Object.entries(registry)) {
+    provider.apiKey = getApiKey(name) ?? provider.apiKey;
+  }
+
+  return registry;
 }
 
-export function getSupportedModels(provider: string): string[] {
-  const providerModels =
-    SUPPORTED_MODELS[provider as keyof typeof SUPPORTED_MODELS];
-  if (!providerModels) {
+export function listProviders(): string[] {
+  return Object.keys(getProviderRegistry());
+}
+
+export function getProviderConfig(provider: string): ProviderConfig {
+  const providerConfig = getProviderRegistry()[provider];
+  if (!providerConfig) {
     throw new Error(`Unsupported provider: ${provider}`);
   }
+  return providerConfig;
+}
 
-  return providerModels.options.slice();
+export function getDefaultModel(provider: string): string {
+  return getProviderConfig(provider).defaultModel;
+}
+
+export function getSupportedModels(provider: string): string[] {
+  return getProviderConfig(provider).models.slice();
 }
 
 async function getModelsListByProviders(
@@ -75,28 +142,10 @@ async function getModelsListByProviders(
 }
 
 async function checkAndFilterModels(
-  provider: string,
+  providerConfig: ProviderConfig,
   options: string[]
 ): Promise<string[]> {
-  const providersConfig: SupportedProviders = {
-    groq: {
-      baseURL: "https://api.groq.com/openai/v1",
-      apiKey: getApiKey("groq"),
-    },
-    local: {
-      baseURL: "http://localhost:11434/v1",
-      apiKey: "ollama",
-    },
-  };
-
-  const providerConfig =
-    providersConfig[provider as keyof typeof providersConfig];
-
-  if (!providerConfig) {
-    throw new Error(`Unsupported provider: ${provider}`);
-  }
-
-  if (provider === "local") {
+  if (!providerConfig.verifyModels) {
     return options;
   }
 
@@ -116,28 +165,15 @@ async function checkAndFilterModels(
 
 // Get the AI model for the specified provider and model name.
 export async function getAIModel(provider: string, modelName?: string) {
-  const supportedProviders: SupportedProviders = {
-    groq: {
-      baseURL: "https://api.groq.com/openai/v1",
-      apiKey: getApiKey("groq"),
-    },
-    local: {
-      baseURL: "http://localhost:11434/v1",
-      apiKey: "ollama",
-    },
-  };
-
-  if (!supportedProviders[provider]) {
-    throw new Error(`Unsupported provider: ${provider}`);
-  }
+  const providerConfig = getProviderConfig(provider);
 
   // Dynamically check and filter the supported models list
   const availableOptions = await checkAndFilterModels(
-    provider,
-    getSupportedModels(provider)
+    providerConfig,
+    providerConfig.models
   );
 
-  const defaultModel = getDefaultModel(provider);
+  const defaultModel = providerConfig.defaultModel;
   const finalModel =
     modelName && availableOptions.includes(modelName)
       ? modelName
@@ -152,7 +188,7 @@ export async function getAIModel(provider: string, modelName?: string) {
     );
   }
 
-  const { baseURL, apiKey } = supportedProviders[provider];
+  const { baseURL, apiKey } = providerConfig;
   return createOpenAI({
     baseURL,
     apiKey,
@@ -0,0 +1,52 @@
+// The generated part of a PR/MR body sits between two HTML comments, which
+// GitHub and GitLab don't render. Anything outside them belongs to people
+// (checklists, screenshots, notes) and survives `--gh-pr` / `--mr` updates.
+export const GENERATED_START = "<!-- pr-desc:start -->";
+export const GENERATED_END = "<!-- pr-desc:end -->";
+// HEAD that the region describes, read back by --incremental
+const HEAD_MARKER = /<!-- pr-desc:head=([0-9a-f]{7,40}) -->\n?/;
+
+export function wrapGenerated(body: string, headSha?: string): string {
+  const head = headSha ? `<!-- pr-desc:head=${headSha} -->\n` : "";
+  return `${GENERATED_START}\n${head}${body.trim()}\n${GENERATED_END}`;
+}
+
+// The generated region of a body (markers stripped) and the HEAD it was
+// generated for; both undefined when the body has no complete region.
+export function readGenerated(existing: string): {
+  body?: string;
+  headSha?: string;
+} {
+  const start = existing.indexOf(GENERATED_START);
+  const end = existing.indexOf(GENERATED_END, start + 1);
+  if (start === -1 || end === -1) return {};
+
+  const region = existing.slice(start + GENERATED_START.length, end);
+  return {
+    body: region.replace(HEAD_MARKER, "").trim(),
+    headSha: region.match(HEAD_MARKER)?.[1],
+  };
+}
+
+// Replace only the marked region of an existing body. Bodies without markers
+// (written by hand or by an older pr-desc) are kept below the new region, so
+// nothing is ever lost; drop the old text once, or use --replace-all.
+export function mergeGenerated(
+  existing: string,
+  body: string,
+  headSha?: string
+): string {
+  const region = wrapGenerated(body, headSha);
+  const start = existing.indexOf(GENERATED_START);
+  const end = existing.indexOf(GENERATED_END, start + 1);
+
+  if (start !== -1 && end !== -1) {
+    return (
+      existing.slice(0, start) +
+      region +
+      existing.slice(end + GENERATED_END.length)
+    );
+  }
+  if (!existing.trim()) return region;
+  return `${region}\n\n${existing.trim()}`;
+}
@@ -1,36 +1,123 @@
-import { generateText } from "ai";
-import type { GitChanges, GenerateOptions } from "./types.js";
+import {
+  APICallError,
+  JSONParseError,
+  NoObjectGeneratedError,
+  TypeValidationError,
+  UnsupportedFunctionalityError,
+  generateObject,
+  generateText,
+  streamObject,
+  streamText,
+  type LanguageModel,
+} from "ai";
+import { z } from "zod";
+import type {
+  GitChanges,
+  GenerateOptions,
+  IssueRef,
+  PRContent,
+  PRDescription,
+} from "./types.js";
 import { getAIModel } from "./models.js";
+import { withCache } from "./cache.js";
+import { packChangesForModel } from "./diff-packer.js";
+import { describeFileStatus, splitMarkdownSections } from "./utils.js";
+import { issueFooters, missingIssueRefs } from "./issues.js";
+import {
+  buildTemplateVariables,
+  hasTemplateTags,
+  parseTemplate,
+  renderTemplate,
+} from "./template-engine.js";
+import { BUILTIN_TEMPLATES } from "./templates.js";
+
+const PRContentSchema = z.object({
+  title: z
+    .string()
+    .describe("Short, clear title summarizing the change in under 10 words"),
+  summary: z
+    .string()
+    .describe("Concise high-level overview of what this PR does"),
+  changes: z
+    .array(z.string())
+    .describe("Specific code changes, features added or bugs fixed"),
+  rationale: z
+    .string()
+    .describe("Why the change was made: the problem solved or context"),
+  technicalDetails: z
+    .string()
+    .optional()
+    .describe(
+      "Implementation specifics, dependencies, DB changes, env vars or API changes"
+    ),
+  testing: z
+    .array(z.string())
+    .describe("Steps to test the PR, ending with the expected results"),
+  breakingChanges: z
+    .array(z.string())
+    .describe("Breaking changes with migration steps; empty if there are none"),
+  relatedIssues: z
+    .array(z.string())
+    .describe("Issues, tickets or PRs referenced by the commits; may be empty"),
+  notes: z
+    .string()
+    .optional()
+    .describe("Extra context, performance considerations or known limitations"),
+});
+
+// --incremental: the previous description is kept and the new commits are
+// called out in their own section. It comes right after the summary, where
+// it's rendered, so a streamed description can show it in order.
+const IncrementalPRContentSchema = z.object({
+  title: PRContentSchema.shape.title,
+  summary: PRContentSchema.shape.summary,
+  sinceLastReview: z
+    .array(z.string())
+    .describe(
+      "What the new commits changed since the previous description, one item per change"
+    ),
+  ...PRContentSchema.omit({ title: true, summary: true }).shape,
+});
 
 export async function generatePRDescription(
   changes: GitChanges,
   options: GenerateOptions
-): Promise<string> {
+): Promise<PRDescription> {
   const model = await getAIModel(options.provider, options.model);
-  const maxFiles = options.maxFiles ?? 20;
-  const maxDiffLines = options.maxDiffLines ?? 500;
-
-  const fileSummaries = changes.files
-    .slice(0, maxFiles)
-    .map((f) => {
-      const patch = f.patch
-        ? f.patch.slice(0, maxDiffLines) +
-          (f.patch.length > maxDiffLines ? "..." : "")
-        : "";
-      return `FILE: ${f.path} STATUS: ${f.status} +${f.additions} -${f.deletions}\n${patch}`;
-    })
-    .join("\n\n");
-
-  function buildPrompt(
-    changes: GitChanges,
-    template: string,
-    fileSummaries: string,
-    customTemplateContent?: string
-  ): string {
-    const gitDataSection = `
+  const fileSummaries =
+    options.changeSummaries ??
+    packChangesForModel(changes, {
+      provider: options.provider,
+      model: options.model,
+      maxFiles: options.maxFiles ?? 20,
+      tokenBudget: options.tokenBudget,
+    }).text;
+
+  // Renames, copies, mode changes and binaries are easy to miss in a diff
+  const structuralChanges = changes.files
+    .filter(
+      (f) =>
+        f.status === "renamed" ||
+        f.status === "copied" ||
+        f.status === "binary" ||
+        f.binary ||
+        (f.oldMode && f.newMode)
+    )
+    .map((f) => `- ${f.path}: ${describeFileStatus(f)}`)
+    .join("\n");
+
+  const issues = options.issues ?? [];
+  const linkedIssues = issues
+    .map(
+      (ref) =>
+        `- ${ref.key}${ref.closes ? " (closed by this PR)" : ""}${ref.url ? `: ${ref.url}` : ""}`
+    )
+    .join("\n");
+
+  const gitDataSection = `
 ## Git Context
-**Base Branch:** ${changes.baseBranch}  
-**Current Branch:** ${changes.currentBranch}  
+**Base:** ${changes.baseRef}  
+**Head:** ${changes.headRef}  
 **Files Changed:** ${changes.files.length}  
 **Insertions:** ${changes.stats.insertions}  
 **Deletions:** ${changes.stats.deletions}  
@@ -39,11 +126,65 @@ export async function generatePRDescription(
 ${changes.commits
   .map((commit) => `- ${commit.message.trim()} (${commit.hash.slice(0, 7)})`)
   .join("\n")}
-
+${
+  structuralChanges
+    ? `
+### Renames, Copies, Mode & Binary Changes
+${structuralChanges}
+`
+    : ""
+}${
+    linkedIssues
+      ? `
+### Linked Issues (from the branch name and commits)
+${linkedIssues}
+`
+      : ""
+  }
 ### File Changes summary
 ${fileSummaries}
 `;
 
+  // Templates with {{...}} tags: variables and conditionals are filled in
+  // here and the model only writes the {{ai "..."}} slots
+  if (
+    options.customTemplateContent &&
+    hasTemplateTags(options.customTemplateContent)
+  ) {
+    const nodes = parseTemplate(options.customTemplateContent);
+    const variables = buildTemplateVariables(changes, issues);
+    const instructions: string[] = [];
+    const skeleton = renderTemplate(nodes, variables, (instruction, index) => {
+      instructions.push(instruction);
+      return `<<slot ${index + 1}>>`;
+    });
+    const answers = instructions.length
+      ? await fillTemplateSlots(
+          model,
+          gitDataSection,
+          skeleton,
+          instructions,
+          options
+        )
+      : [];
+    const markdown = renderTemplate(
+      nodes,
+      variables,
+      (_, index) => answers[index] ?? ""
+    );
+    // nothing to stream slot by slot; show the finished document at once
+    options.onToken?.(markdown);
+    const { title, body } = splitMarkdownSections(markdown);
+    // issues the template doesn't place with {{issues}} go at the end
+    return addIssueReferences({ title, body }, issues, options.onToken);
+  }
+
+  function buildPrompt(
+    changes: GitChanges,
+    template: string,
+    fileSummaries: string,
+    customTemplateContent?: string
+  ): string {
     const finalAiInstruction = `
 Do *not* include any meta information or explanations — just the PR content
 Do **not** include labels like "PR Description:", "Title:", or meta text — only the final PR content.
@@ -67,103 +208,174 @@ ${finalAiInstruction}
 `;
     }
 
-    const templates = {
-      standard: `${gitDataSection}
-
-You are an expert software engineer.  
-Write a **standard** **production-ready** Pull Request description in clean Markdown.
-${finalAiInstruction}  
-
-Follow this exact structure:
-
-# Title
-[Short, clear title summarizing the change in under 10 words.]
-
-## Summary of Changes
-[Concise high-level overview of what this PR does, focusing on the end result.]
-
-## What Was Changed
-[List the specific code modifications, features added, bugs fixed, or files updated. Use bullet points for clarity.]
-
-## Why This Change Was Made
-[Explain the rationale, problem solved, or context from related work.]
-
-
-## Technical Details
-[Include implementation specifics, relevant algorithms, dependencies, DB changes, env vars, or API modifications.]
-
-
-## How to Test
-1. Checkout this branch.
-2. Run \`npm install\` and \`npm run dev\`.
-3. Navigate to **[feature/page/URL]**.
-4. Perform **[specific actions]**.
-5. Verify **[expected results]**.
-
-
-## Breaking Changes
-[List any breaking changes or write \`None\`. Include migration steps if applicable.]
-**NOTE** Breaking Changes **includes but not limited** to the following conditions:
-
-1. A new feature implemented
-2. A Big refactor to current implementation
-
-## Related Issues / References
-[Optional: Link to Jira ticket, GitHub issue, or related PR.]
-`,
-
-      detailed: `${gitDataSection}
-
-You are an expert software engineer.  
-Write a **production-ready** and **comprehensive** Pull Request description in clean Markdown.  
-${finalAiInstruction}
-
-Follow this exact structure:
-
-# Title
-[Short, clear title summarizing the change in under 10 words.]
-
-## Summary of Changes
-[Brief high-level overview of what this PR achieves.]
-
-## Changes Made
-[Detailed bullet list of modifications, new features, and fixes.]
-
-## Technical Details
-[Explain the approach, important design decisions, dependencies, DB changes, env vars, or API changes.]
-
-## Testing
-[Steps to test the PR — actions, expected results, and verification points.]
-
-## Breaking Changes
-[List any breaking changes or write \`None\`. Include migration instructions if necessary.]
-
-## Additional Notes
-[Optional extra context, performance considerations, or known limitations.]
-`,
-
-      minimal: `${gitDataSection}
+    const builtin = BUILTIN_TEMPLATES[template] ?? BUILTIN_TEMPLATES.standard;
+    return `${gitDataSection}
 
 You are an expert software engineer.  
-Write a **concise** and **minimal** Pull Request description in clean Markdown.  
+${builtin.instruction}
 ${finalAiInstruction}
 
 Follow this exact structure:
 
-# Title
-[Short, clear title summarizing the change.]
+${builtin.structure}`;
+  }
 
-## Summary
-[A two line summary of what was changed.]
+  // Built-in templates: ask for a structured object and render the Markdown
+  // in code; when streaming, sections are printed as the object fills in.
+  // Custom templates, and models without JSON/tool support, fall back to
+  // free text below.
+  if (!options.customTemplateContent) {
+    const previous = options.incremental
+      ? `
+## Previous PR description
+It describes the earlier commits of this PR; the git changes above are only the commits pushed since.
+Keep what still applies, update what the new commits change, and list the new changes in sinceLastReview.
+${options.refineFrom!.trim()}
+`
+      : options.refineFrom
+        ? `
+## Previous PR description
+Improve or correct it so it is clear, complete and accurate:
+${options.refineFrom.trim()}
+`
+        : "";
+    const structuredPrompt = `${gitDataSection}
+${previous}
+You are an expert software engineer writing a Pull Request description.
+${(BUILTIN_TEMPLATES[options.template] ?? BUILTIN_TEMPLATES.standard).guidance}
+Fill in every field from the git changes above. Use plain Markdown inside fields, no headings.
+Only list breaking changes and related issues that the changes or commit messages actually show.
+`;
 
-## Key Changes
-[Bullet points summarizing the main changes.]
-`,
+    const temperature = options.refineFrom ? 0.15 : 0.3;
+    const request = {
+      model,
+      schema: (options.incremental
+        ? IncrementalPRContentSchema
+        : PRContentSchema) as z.ZodType<PRContent>,
+      schemaName: "pull_request",
+      schemaDescription: "A GitHub pull request description",
+      prompt: structuredPrompt,
+      temperature,
+      maxTokens: 1500,
+      abortSignal: options.abortSignal,
+    };
+    // what's been printed so far, always the start of the final Markdown
+    let streamed = "";
+    const stream = (markdown: string) => {
+      if (!options.onToken || markdown.length <= streamed.length) return;
+      if (!markdown.startsWith(streamed)) return;
+      options.onToken(markdown.slice(streamed.length));
+      streamed = markdown;
     };
 
-    return templates[template as keyof typeof templates] || templates.standard;
+    try {
+      const { value: object } = await withCache(
+        {
+          provider: options.provider,
+          model: options.model,
+          temperature,
+          prompt: structuredPrompt,
+          format: "object",
+        },
+        options.cache,
+        async () => {
+          if (!options.onToken) return (await generateObject(request)).object;
+
+          // streamObject reports errors through onError instead of throwing
+          let streamError: unknown;
+          const result = streamObject({
+            ...request,
+            onError: ({ error }) => {
+              streamError = error;
+            },
+          });
+          for await (const partial of result.partialObjectStream) {
+            stream(renderPartialPR(partial, options, issues));
+          }
+          options.abortSignal?.throwIfAborted();
+          if (streamError) throw streamError;
+          return await result.object;
+        }
+      );
+      const content = linkIssues(object, issues);
+      const description = {
+        title: content.title.trim(),
+        body: renderPRMarkdown(content, options.template),
+        content,
+      };
+      stream(`# ${description.title}\n\n${description.body}`);
+      return addIssueReferences(description, issues, options.onToken);
+    } catch (err) {
+      if (options.abortSignal?.aborted || !isStructuredOutputError(err)) {
+        throw err;
+      }
+      // fall through to free text, below whatever was printed already
+      if (streamed) options.onToken?.("\n\n");
+      warnFallback(err, options);
+    }
   }
 
+  // Free text, token by token to onToken when streaming
+  const callModel = async (
+    prompt: string,
+    temperature: number
+  ): Promise<string> => {
+    if (!options.onToken) {
+      const res = await generateText({
+        model,
+        prompt,
+        temperature,
+        maxTokens: 800,
+        abortSignal: options.abortSignal,
+      });
+      return (
+        (res as any)?.text ??
+        (res as any)?.output?.[0]?.content ??
+        ""
+      ).trim();
+    }
+
+    // streamText reports errors through onError instead of throwing
+    let streamError: unknown;
+    const result = streamText({
+      model,
+      prompt,
+      temperature,
+      maxTokens: 800,
+      abortSignal: options.abortSignal,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+    });
+    let text = "";
+    for await (const delta of result.textStream) {
+      text += delta;
+      options.onToken(delta);
+    }
+    options.abortSignal?.throwIfAborted();
+    if (streamError) throw streamError;
+    return text.trim();
+  };
+  const complete = async (
+    prompt: string,
+    temperature: number
+  ): Promise<string> => {
+    const { value, cached } = await withCache(
+      { provider: options.provider, model: options.model, temperature, prompt },
+      options.cache,
+      () => callModel(prompt, temperature)
+    );
+    // a cached answer is "streamed" in one go
+    if (cached) options.onToken?.(value);
+    return value;
+  };
+
+  const toDescription = (markdown: string): PRDescription => {
+    const { title, body } = splitMarkdownSections(markdown);
+    return addIssueReferences({ title, body }, issues, options.onToken);
+  };
+
   const prompt = buildPrompt(
     changes,
     options.template,
@@ -188,6 +400,11 @@ Rules:
 - Do not include labels like "PR Description:", "Title:", or meta text — only the final PR content.
 - Do not include any labels like "Here's a suggested PR description", "Feel free to modify it"
 ${options.template ? `- Follow the ${options.template} template structure` : ""}
+${
+  options.incremental
+    ? `- The previous description covers earlier commits and the diff only the new ones: keep what still applies and add a "## Changes since last review" section (replacing any existing one) listing what the new commits changed`
+    : ""
+}
 ${
   options.customTemplateContent
     ? `- Follow the provided custom template structure`
@@ -195,39 +412,289 @@ ${
 }
 `;
     try {
-      const res = await generateText({
-        model,
-        prompt: refinePrompt,
-        temperature: 0.15,
-        maxTokens: 800,
-      });
-      const out = (
-        (res as any)?.text ??
-        (res as any)?.output?.[0]?.content ??
-        ""
-      ).trim();
-      return out || prev;
+      const out = await complete(refinePrompt, 0.15);
+      return toDescription(out || prev);
     } catch (err) {
+      if (options.abortSignal?.aborted) throw err;
       // just fallback to original prompt
       console.error("Error during refine:", err);
-      return prev;
+      return toDescription(prev);
     }
   }
 
   try {
-    const res = await generateText({
-      model,
-      prompt,
-      temperature: 0.3,
-      maxTokens: 800,
-    });
-    return (
-      (res as any)?.text ??
-      (res as any)?.output?.[0]?.content ??
-      "Error: No response from AI"
-    ).trim();
+    return toDescription(
+      (await complete(prompt, 0.3)) || "Error: No response from AI"
+    );
   } catch (err) {
+    if (options.abortSignal?.aborted) throw err;
     console.error("Error during PR generation:", err);
-    return "Error: Unable to generate PR description";
+    return toDescription("Error: Unable to generate PR description");
+  }
+}
+
+// Ask the model for the {{ai}} slots of a template, and nothing else.
+// Structured output first, numbered <slot N> blocks for models without
+// JSON/tool support.
+async function fillTemplateSlots(
+  model: LanguageModel,
+  gitDataSection: string,
+  skeleton: string,
+  instructions: string[],
+  options: GenerateOptions
+): Promise<string[]> {
+  const previous = options.refineFrom
+    ? `
+## Previous PR description
+Improve or correct the slots so they are clear, complete and accurate:
+${options.refineFrom.trim()}
+`
+    : "";
+  const prompt = `${gitDataSection}
+${previous}
+You are an expert software engineer filling in a Pull Request description template.
+The document below is final except for the numbered placeholders <<slot N>>. Write only the text of each slot.
+Fit each slot to where it sits: a slot in a heading is a single line, a slot after a list marker is list items.
+Use plain Markdown and don't repeat the text around the slot.
+
+## Document
+${skeleton}
+
+## Slots
+${instructions.map((instruction, i) => `${i + 1}. ${instruction}`).join("\n")}
+`;
+  const temperature = options.refineFrom ? 0.15 : 0.3;
+  const cacheParts = {
+    provider: options.provider,
+    model: options.model,
+    temperature,
+  };
+
+  try {
+    const schema = z.object(
+      Object.fromEntries(
+        instructions.map((instruction, i) => [
+          `slot${i + 1}`,
+          z.string().describe(instruction),
+        ])
+      )
+    );
+    const { value } = await withCache(
+      { ...cacheParts, prompt, format: "object" },
+      options.cache,
+      async () =>
+        (
+          await generateObject({
+            model,
+            schema,
+            schemaName: "template_slots",
+            schemaDescription: "Text for each slot of a PR template",
+            prompt,
+            temperature,
+            maxTokens: 1500,
+            abortSignal: options.abortSignal,
+          })
+        ).object as Record<string, string>
+    );
+    return instructions.map((_, i) => (value[`slot${i + 1}`] ?? "").trim());
+  } catch (err) {
+    if (options.abortSignal?.aborted || !isStructuredOutputError(err)) {
+      throw err;
+    }
+    warnFallback(err, options);
+  }
+
+  const textPrompt = `${prompt}
+Answer with every slot in order, each wrapped in its own tags and nothing else:
+<slot 1>
+...
+</slot 1>
+`;
+  const { value: text } = await withCache(
+    { ...cacheParts, prompt: textPrompt },
+    options.cache,
+    async () =>
+      (
+        await generateText({
+          model,
+          prompt: textPrompt,
+          temperature,
+          maxTokens: 1500,
+          abortSignal: options.abortSignal,
+        })
+      ).text.trim()
+  );
+  return instructions.map(
+    (_, i) =>
+      text.match(
+        new RegExp(`<slot ${i + 1}>\\s*([\\s\\S]*?)\\s*</slot ${i + 1}>`)
+      )?.[1] ?? ""
+  );
+}
+
+// Append "Closes #N" / "Refs:" lines for linked issues the body doesn't
+// mention yet (minimal and custom templates have no section for them).
+function addIssueReferences(
+  description: PRDescription,
+  issues: IssueRef[],
+  onToken?: (text: string) => void
+): PRDescription {
+  const missing = missingIssueRefs(description.body, issues);
+  if (!missing.length) return description;
+
+  const lines = `\n\n${issueFooters(missing, { links: true }).join("\n")}`;
+  // streamed output gets them too, after the model's text
+  onToken?.(lines);
+  return { ...description, body: description.body.trimEnd() + lines };
+}
+
+// The model or provider couldn't produce the object: no JSON mode or tools,
+// or an answer that doesn't fit the schema. Free text may still work; auth,
+// network and rate-limit errors would only fail again.
+function isStructuredOutputError(err: unknown): boolean {
+  if (
+    NoObjectGeneratedError.isInstance(err) ||
+    TypeValidationError.isInstance(err) ||
+    JSONParseError.isInstance(err) ||
+    UnsupportedFunctionalityError.isInstance(err)
+  ) {
+    return true;
+  }
+  // servers without response_format / tool support reject the request
+  return (
+    APICallError.isInstance(err) &&
+    (err.statusCode === 400 || err.statusCode === 422)
+  );
+}
+
+function warnFallback(err: unknown, options: GenerateOptions) {
+  const reason = (err instanceof Error ? err.message : String(err)).split(
+    "\n"
+  )[0];
+  options.onWarning?.(
+    `Structured output failed: ${reason}, falling back to free text`
+  );
+}
+
+// Our "Closes #N" / "Refs:" lines first, then whatever else the model found
+function linkIssues(content: PRContent, issues: IssueRef[]): PRContent {
+  if (!issues.length) return content;
+  return {
+    ...content,
+    relatedIssues: [
+      ...issueFooters(issues, { links: true }),
+      ...content.relatedIssues.filter(
+        (item) => missingIssueRefs(item, issues).length === issues.length
+      ),
+    ],
+  };
+}
+
+// The part of a streamed object that is final: the title and the sections up
+// to the first field still being written (or not started yet). JSON arrives
+// key by key, so every key but the last one is complete, and the result only
+// ever grows into renderPRMarkdown's output.
+function renderPartialPR(
+  partial: Partial<Record<keyof PRContent, unknown>>,
+  options: Pick<GenerateOptions, "template" | "incremental">,
+  issues: IssueRef[]
+): string {
+  const done = new Set(Object.keys(partial).slice(0, -1));
+  if (!done.has("title")) return "";
+
+  const list = (value: unknown) => (Array.isArray(value) ? value : []);
+  const content = linkIssues(
+    {
+      ...(partial as PRContent),
+      changes: list(partial.changes),
+      testing: list(partial.testing),
+      breakingChanges: list(partial.breakingChanges),
+      relatedIssues: list(partial.relatedIssues),
+      // keeps its place (and holds back what follows) until it arrives
+      sinceLastReview: options.incremental
+        ? list(partial.sinceLastReview)
+        : undefined,
+    },
+    issues
+  );
+  const sections = prSections(content, options.template);
+  const ready = sections.findIndex(([, , field]) => !done.has(field));
+  return `# ${String(partial.title).trim()}\n\n${joinSections(
+    ready === -1 ? sections : sections.slice(0, ready)
+  )}`;
+}
+
+const bullets = (items: string[]) => items.map((i) => `- ${i}`).join("\n");
+const steps = (items: string[]) =>
+  items.map((i, index) => `${index + 1}. ${i}`).join("\n");
+
+// heading, text and the field it comes from
+type PRSection = [string, string | undefined, keyof PRContent];
+
+// The sections of the chosen template, in order.
+function prSections(content: PRContent, template: string): PRSection[] {
+  const breaking = content.breakingChanges.length
+    ? bullets(content.breakingChanges)
+    : "None";
+
+  const layouts: Record<string, PRSection[]> = {
+    standard: [
+      ["Summary of Changes", content.summary, "summary"],
+      ["What Was Changed", bullets(content.changes), "changes"],
+      ["Why This Change Was Made", content.rationale, "rationale"],
+      ["Technical Details", content.technicalDetails, "technicalDetails"],
+      ["How to Test", steps(content.testing), "testing"],
+      ["Breaking Changes", breaking, "breakingChanges"],
+      [
+        "Related Issues / References",
+        bullets(content.relatedIssues),
+        "relatedIssues",
+      ],
+    ],
+    detailed: [
+      ["Summary of Changes", content.summary, "summary"],
+      ["Changes Made", bullets(content.changes), "changes"],
+      ["Why This Change Was Made", content.rationale, "rationale"],
+      ["Technical Details", content.technicalDetails, "technicalDetails"],
+      ["Testing", steps(content.testing), "testing"],
+      ["Breaking Changes", breaking, "breakingChanges"],
+      [
+        "Related Issues / References",
+        bullets(content.relatedIssues),
+        "relatedIssues",
+      ],
+      ["Additional Notes", content.notes, "notes"],
+    ],
+    minimal: [
+      ["Summary", content.summary, "summary"],
+      ["Key Changes", bullets(content.changes), "changes"],
+    ],
+  };
+
+  const sections = [...(layouts[template] ?? layouts.standard)];
+  if (content.sinceLastReview) {
+    // right after the summary, where returning reviewers look first
+    sections.splice(1, 0, [
+      "Changes since last review",
+      bullets(content.sinceLastReview),
+      "sinceLastReview",
+    ]);
   }
+  return sections;
+}
+
+const joinSections = (sections: PRSection[]) =>
+  sections
+    .filter(([, text]) => text?.trim())
+    .map(([heading, text]) => `## ${heading}\n${text!.trim()}`)
+    .join("\n\n");
+
+// Lay out the structured content using the headings of the chosen template.
+export function renderPRMarkdown(content: PRContent, template: string): string {
+  return joinSections(prSections(content, template));
+}
+
+// Full Markdown, title included, for previews and stdout.
+export function formatPRDescription(pr: PRDescription): string {
+  return pr.title ? `# ${pr.title}\n\n${pr.body}` : pr.body;
 }
@@ -1,12 +1,12 @@
 import chalk from "chalk";
 import { generateConventionalCommitMessage } from "./commit-generator.js";
-import { GenerateOptions, GitChanges } from "./types.js";
+import { GenerateOptions, GitChanges, QuickSummary } from "./types.js";
 import { mapTypeToLabel } from "./utils.js";
 
-export async function generateQuickSummary(
+export async function buildQuickSummary(
   changes: GitChanges,
   options: GenerateOptions
-): Promise<string> {
+): Promise<QuickSummary> {
   const filesChanged =
     changes.stats && typeof changes.stats.filesChanged === "number"
       ? changes.stats.filesChanged
@@ -20,23 +20,42 @@ export async function generateQuickSummary(
       provider: options.provider ?? "",
       model: options.model ?? "",
       maxFiles: options.maxFiles ?? 20,
+      tokenBudget: options.tokenBudget,
+      cache: options.cache,
     });
   } catch (e) {
     suggestedCommit = undefined;
   }
 
+  let prType: string | undefined = undefined;
+  if (suggestedCommit) {
+    const m = suggestedCommit.match(/^([a-zA-Z0-9_-]+)(?:\([^)]*\))?!?:/);
+    prType = m ? mapTypeToLabel(m[1]) : "Unknown";
+  }
+
+  return { filesChanged, insertions, deletions, suggestedCommit, prType };
+}
+
+export function formatQuickSummary(summary: QuickSummary): string {
   const summaryLines: string[] = [];
-  summaryLines.push(chalk.green(`✔ ${filesChanged} files changed`));
+  summaryLines.push(chalk.green(`✔ ${summary.filesChanged} files changed`));
   summaryLines.push(
-    chalk.green(`✔ ${insertions} insertions / ${deletions} deletions`)
+    chalk.green(
+      `✔ ${summary.insertions} insertions / ${summary.deletions} deletions`
+    )
   );
 
-  if (suggestedCommit) {
-    const m = suggestedCommit.match(/^([a-zA-Z0-9_-]+)(?:\([^)]*\))?:/);
-    const typeLabel = m ? mapTypeToLabel(m[1]) : "Unknown";
-    summaryLines.push(chalk.yellow(`🧠 PR type: ${typeLabel}`));
-    summaryLines.push(chalk.cyan(`💬 Commit: ${suggestedCommit}`));
+  if (summary.suggestedCommit) {
+    summaryLines.push(chalk.yellow(`🧠 PR type: ${summary.prType}`));
+    summaryLines.push(chalk.cyan(`💬 Commit: ${summary.suggestedCommit}`));
   }
 
   return summaryLines.join("\n");
 }
+
+export async function generateQuickSummary(
+  changes: GitChanges,
+  options: GenerateOptions
+): Promise<string> {
+  return formatQuickSummary(await buildQuickSummary(changes, options));
+}
@@ -0,0 +1,181 @@
+import { basename } from "path";
+import type { FileChange, RedactConfig } from "./types.js";
+import { loadConfig } from "./config.js";
+
+// Secrets committed by mistake must never reach a hosted model. Patches are
+// scrubbed as they're read from git (see toFileChange in git-utils.ts), so
+// every prompt built from a FileChange only ever sees the placeholders.
+
+interface SecretDetector {
+  name: string;
+  pattern: RegExp;
+  // replace only this capture group (e.g. the value of an assignment), or
+  // the first of these groups that matched
+  group?: number | number[];
+  // extra check on the match, e.g. entropy
+  accept?: (match: string) => boolean;
+}
+
+const SECRET_NAME =
+  "[A-Za-z0-9_.-]*(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|private[_-]?key|credentials?|auth(?!or))[A-Za-z0-9_.-]*";
+
+// Unquoted values that are clearly not a secret
+const NOT_SECRET_VALUES = /^(?:null|nil|none|true|false|undefined|~)$/i;
+
+const BUILTIN_DETECTORS: SecretDetector[] = [
+  {
+    // a whole key, or everything after a BEGIN line cut off by the packer
+    name: "private-key",
+    pattern:
+      /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----(?:[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----|[\s\S]*$)/g,
+  },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    // GitHub, GitLab, Slack, Groq, OpenAI and Stripe style tokens
+    name: "api-token",
+    pattern:
+      /\b(?:gh[pousr]_[A-Za-z0-9]{30,}|github_pat_[A-Za-z0-9_]{30,}|glpat-[A-Za-z0-9_-]{20,}|xox[abposr]-[A-Za-z0-9-]{10,}|gsk_[A-Za-z0-9]{20,}|sk-[A-Za-z0-9_-]{20,}|[rs]k_live_[A-Za-z0-9]{20,})\b/g,
+  },
+  {
+    // password: "hunter2", "apiKey": "...", AWS_SECRET_ACCESS_KEY = '...',
+    // and unquoted values ending the line (YAML, .properties, shell):
+    // password: hunter2, DB_PASSWORD=x. Unquoted values that look like code
+    // (calls, ${VAR}, comparisons) are left alone.
+    name: "secret-assignment",
+    pattern: new RegExp(
+      `(${SECRET_NAME}["']?\\s*(?::|=(?![=>]))\\s*)(?:(["'])([^"'\\s]{4,})\\2|([^\\s"'\`(){}\\[\\];,$<>]+)[ \\t]*$)`,
+      "gim"
+    ),
+    group: [3, 4],
+    accept: (value) => !NOT_SECRET_VALUES.test(value),
+  },
+  {
+    // no "/" in the class, so each segment of a URL or path is judged on
+    // its own instead of the whole path looking random
+    name: "high-entropy",
+    pattern: /(?<![A-Za-z0-9+_=-])[A-Za-z0-9+_=-]{32,}(?![A-Za-z0-9+_=-])/g,
+    accept: looksRandom,
+  },
+];
+
+// Every value in a dotenv file, whatever the variable is called
+const ENV_ASSIGNMENT: SecretDetector = {
+  name: "env-assignment",
+  pattern: /^([+\- ]?\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*)(.+)$/gm,
+  group: 2,
+};
+
+function isEnvFile(path: string): boolean {
+  const name = basename(path);
+  return /^\.env(\..+)?$/.test(name) || name.endsWith(".env");
+}
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Mixed-case letters and digits with near-random entropy. Lockfile integrity
+// hashes ("sha512-...") and hex digests (commit SHAs) are left alone.
+function looksRandom(value: string): boolean {
+  if (/^[0-9a-f]+$/i.test(value) || /^sha\d+-/.test(value)) return false;
+  if (/^(?:[A-Za-z]+[_-])+[A-Za-z]+$/.test(value)) return false; // identifiers
+  if (!/[0-9]/.test(value) || !/[a-z]/.test(value) || !/[A-Z]/.test(value)) {
+    return false;
+  }
+  return shannonEntropy(value) >= 4.2;
+}
+
+let detectors: { all: SecretDetector[]; env: boolean } | undefined;
+
+function getDetectors(): { all: SecretDetector[]; env: boolean } {
+  if (detectors) return detectors;
+  const config: RedactConfig = loadConfig().redact ?? {};
+
+  const custom = Object.entries(config.patterns ?? {}).map(([name, source]) => {
+    try {
+      return { name, pattern: new RegExp(source, "g") };
+    } catch (error) {
+      throw new Error(
+        `Invalid redact pattern "${name}" in config: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  });
+  detectors = {
+    all: [
+      ...BUILTIN_DETECTORS.filter((d) => !config.disable?.includes(d.name)),
+      ...custom,
+    ],
+    env: !config.disable?.includes(ENV_ASSIGNMENT.name),
+  };
+  return detectors;
+}
+
+function applyDetector(
+  text: string,
+  detector: SecretDetector,
+  found: Set<string>
+): string {
+  const placeholder = `[REDACTED:${detector.name}]`;
+  const indexes =
+    typeof detector.group === "number" ? [detector.group] : detector.group;
+  return text.replace(detector.pattern, (match, ...groups) => {
+    const value = indexes
+      ? indexes
+          .map((index) => groups[index - 1])
+          .find((group) => typeof group === "string")
+      : match;
+    if (typeof value !== "string" || value.includes("[REDACTED:")) {
+      return match;
+    }
+    if (detector.accept && !detector.accept(value)) return match;
+    found.add(detector.name);
+    if (!detector.group) return placeholder;
+    // the value comes last in the match (after the name and separator)
+    const index = match.lastIndexOf(value);
+    return (
+      match.slice(0, index) + placeholder + match.slice(index + value.length)
+    );
+  });
+}
+
+// Replace anything that looks like a secret with [REDACTED:<detector>].
+export function redactPatch(
+  path: string,
+  patch: string
+): { patch: string; redacted: string[] } {
+  const found = new Set<string>();
+  let result = patch;
+
+  const { all, env } = getDetectors();
+  for (const detector of all) {
+    result = applyDetector(result, detector, found);
+  }
+  if (env && isEnvFile(path)) {
+    // diff headers ("+++ b/.env", "@@ ... @@") never match ENV_ASSIGNMENT
+    result = applyDetector(result, ENV_ASSIGNMENT, found);
+  }
+
+  return { patch: result, redacted: Array.from(found) };
+}
+
+// Warning text listing the files that had secrets scrubbed, if any.
+export function describeRedactions(files: FileChange[]): string | undefined {
+  const redacted = files.filter((f) => f.redacted?.length);
+  if (!redacted.length) return undefined;
+  return `Possible secrets were redacted before sending the diff to the model:\n${redacted
+    .map((f) => `  - ${f.path} (${f.redacted!.join(", ")})`)
+    .join("\n")}`;
+}
@@ -0,0 +1,69 @@
+import { CancelledError } from "./types.js";
+
+export interface TokenPrinter {
+  onToken: (text: string) => void;
+  // flush what's buffered; true when anything was printed
+  finish: () => boolean;
+}
+
+// Writes generated Markdown as it arrives. The first line is held back until
+// it's complete so a --title can replace the generated "# Title".
+export function createTokenPrinter(options: {
+  write: (text: string) => void;
+  onStart?: () => void; // before the first write, e.g. stop the spinner
+  title?: string;
+}): TokenPrinter {
+  let buffer = "";
+  let headerDone = false;
+  let last = "";
+
+  const emit = (text: string) => {
+    if (!text) return;
+    if (!last) options.onStart?.();
+    options.write(text);
+    last = text;
+  };
+
+  const flushHeader = (text: string) => {
+    headerDone = true;
+    if (!options.title) return emit(text);
+    const newline = text.indexOf("\n");
+    const firstLine = newline === -1 ? text : text.slice(0, newline);
+    emit(
+      firstLine.startsWith("# ")
+        ? `# ${options.title}${newline === -1 ? "" : text.slice(newline)}`
+        : `# ${options.title}\n\n${text}`
+    );
+  };
+
+  return {
+    onToken(text) {
+      if (headerDone) return emit(text);
+      buffer = (buffer + text).trimStart();
+      if (buffer.includes("\n")) flushHeader(buffer);
+    },
+    finish() {
+      if (!headerDone && buffer) flushHeader(buffer);
+      if (last && !last.endsWith("\n")) options.write("\n");
+      return Boolean(last);
+    },
+  };
+}
+
+// Runs a request that Ctrl-C aborts cleanly instead of killing the process
+// mid-write. Throws CancelledError when it was interrupted.
+export async function withInterrupt<T>(
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.once("SIGINT", onInterrupt);
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) throw new CancelledError();
+    throw error;
+  } finally {
+    process.off("SIGINT", onInterrupt);
+  }
+}
@@ -0,0 +1,253 @@
+import type { GitChanges, IssueRef } from "./types.js";
+import { TemplateError } from "./types.js";
+import { describeFileStatus, parseConventionalCommit } from "./utils.js";
+import { formatIssueRef, issueFooters } from "./issues.js";
+
+// A small Handlebars-like language for --template-file. Variables and
+// conditionals are filled in by pr-desc; only {{ai "..."}} slots go to the
+// model, so the static parts of a template come out exactly as written.
+//
+//   {{branch}}  {{stats.insertions}}  {{#if breaking}}...{{else}}...{{/if}}
+//   {{ai "Summarize the change in two sentences"}}
+//
+// Any other {{...}} (GitHub Actions' ${{ secrets.TOKEN }}, say) is left as
+// written, and \{{ writes a literal {{.
+
+export type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "var"; path: string }
+  | { type: "ai"; instruction: string }
+  | { type: "if"; path: string; then: TemplateNode[]; else: TemplateNode[] };
+
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  branch: "Head branch (or ref) being described",
+  base: "Base branch (or ref)",
+  date: "Today's date, YYYY-MM-DD",
+  "stats.filesChanged": "Number of changed files",
+  "stats.insertions": "Lines added",
+  "stats.deletions": "Lines deleted",
+  commits: 'Commits as a list: "- subject (abc1234)"',
+  files: 'Changed files as a list: "- path (status, +added -deleted)"',
+  issue: "The issue this branch closes (or the first one it references)",
+  issues: '"Closes #N" / "Refs:" lines for every linked issue',
+  breaking: "Breaking changes announced by the commits, as a list",
+};
+
+const TAG = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const AI_TAG = /^ai\s+(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)')$/;
+const PATH = /^[A-Za-z_][\w.]*$/;
+
+// Whether a tag is ours; everything else stays text
+function isEngineTag(tag: string): boolean {
+  return (
+    /^(ai\b|#if\b|else$|\/if$|!)/.test(tag) ||
+    (PATH.test(tag) && TEMPLATE_VARIABLES[tag] !== undefined)
+  );
+}
+
+function isEscaped(content: string, index: number): boolean {
+  return index > 0 && content[index - 1] === "\\";
+}
+
+// The engine only takes over a template that uses it: an {{ai}} slot, an
+// {{#if}} or a known variable. Comments alone don't count.
+export function hasTemplateTags(content: string): boolean {
+  for (const match of content.matchAll(TAG)) {
+    if (isEscaped(content, match.index ?? 0)) continue;
+    if (isEngineTag(match[1]) && !match[1].startsWith("!")) return true;
+  }
+  return false;
+}
+
+function lineOf(content: string, index: number): number {
+  return content.slice(0, index).split("\n").length;
+}
+
+function checkVariable(path: string, line: number): void {
+  if (TEMPLATE_VARIABLES[path] !== undefined) return;
+  throw new TemplateError(
+    `Unknown variable {{${path}}} on line ${line}. Available: ${Object.keys(
+      TEMPLATE_VARIABLES
+    ).join(", ")}`
+  );
+}
+
+export function parseTemplate(content: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // open {{#if}} blocks; `nodes` is where their children currently go
+  const stack: {
+    node: Extract<TemplateNode, { type: "if" }>;
+    line: number;
+    nodes: TemplateNode[];
+  }[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].nodes : root);
+  const pushText = (text: string) => {
+    if (text) current().push({ type: "text", text });
+  };
+
+  let last = 0;
+  for (const match of content.matchAll(TAG)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const tag = match[1];
+    const line = lineOf(content, start);
+    const textStart = last;
+    let before = content.slice(textStart, start);
+    last = end;
+
+    if (isEscaped(content, start)) {
+      pushText(before.slice(0, -1) + match[0]);
+      continue;
+    }
+    if (!isEngineTag(tag)) {
+      pushText(before + match[0]);
+      continue;
+    }
+
+    // Block tags and comments alone on a line take the whole line with
+    // them, so they don't leave blank lines behind.
+    const block = /^(#if\b|else$|\/if$|!)/.test(tag);
+    if (block) {
+      const lineStart = before.lastIndexOf("\n") + 1;
+      const after = content.slice(end).match(/^[ \t]*(\r?\n|$)/);
+      const atLineStart =
+        /^[ \t]*$/.test(before.slice(lineStart)) &&
+        (lineStart > 0 || textStart === 0 || content[textStart - 1] === "\n");
+      if (atLineStart && after) {
+        before = before.slice(0, lineStart);
+        last = end + after[0].length;
+      }
+    }
+    pushText(before);
+
+    if (tag.startsWith("!")) continue; // {{! comment }}
+
+    const ifMatch = tag.match(/^#if\s+(\S+)$/);
+    if (ifMatch) {
+      if (!PATH.test(ifMatch[1])) {
+        throw new TemplateError(`Invalid condition "${tag}" on line ${line}`);
+      }
+      checkVariable(ifMatch[1], line);
+      const node: Extract<TemplateNode, { type: "if" }> = {
+        type: "if",
+        path: ifMatch[1],
+        then: [],
+        else: [],
+      };
+      current().push(node);
+      stack.push({ node, line, nodes: node.then });
+    } else if (tag === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.nodes === open.node.else) {
+        throw new TemplateError(`Unexpected {{else}} on line ${line}`);
+      }
+      open.nodes = open.node.else;
+    } else if (tag === "/if") {
+      if (!stack.pop()) {
+        throw new TemplateError(`Unexpected {{/if}} on line ${line}`);
+      }
+    } else if (AI_TAG.test(tag)) {
+      const [, double, single] = tag.match(AI_TAG)!;
+      const instruction = (double ?? single).replace(/\\(.)/g, "$1").trim();
+      if (!instruction) {
+        throw new TemplateError(`Empty {{ai}} instruction on line ${line}`);
+      }
+      current().push({ type: "ai", instruction });
+    } else if (tag.startsWith("ai")) {
+      throw new TemplateError(
+        `Invalid slot {{${tag}}} on line ${line}; use {{ai "instruction"}}`
+      );
+    } else if (PATH.test(tag)) {
+      current().push({ type: "var", path: tag });
+    } else {
+      throw new TemplateError(`Invalid condition "${tag}" on line ${line}`);
+    }
+  }
+  pushText(content.slice(last));
+
+  if (stack.length) {
+    throw new TemplateError(
+      `{{#if ${stack[stack.length - 1].node.path}}} on line ${
+        stack[stack.length - 1].line
+      } is never closed with {{/if}}`
+    );
+  }
+  return root;
+}
+
+export type TemplateVariables = Record<string, string | number | object>;
+
+// The values behind TEMPLATE_VARIABLES for a change set.
+export function buildTemplateVariables(
+  changes: GitChanges,
+  issues: IssueRef[] = []
+): TemplateVariables {
+  const breaking = changes.commits.flatMap((commit) => {
+    const parsed = parseConventionalCommit(commit.message, commit.body);
+    if (!parsed?.breaking) return [];
+    const footer = commit.body?.match(/^BREAKING[ -]CHANGE:\s*(.+)$/m)?.[1];
+    return [`- ${(footer ?? parsed.subject).trim()}`];
+  });
+  const issue = issues.find((ref) => ref.closes) ?? issues[0];
+
+  return {
+    branch: changes.headRef,
+    base: changes.baseRef,
+    date: new Date().toISOString().slice(0, 10),
+    stats: changes.stats,
+    commits: changes.commits
+      .map((c) => `- ${c.message.trim()} (${c.hash.slice(0, 7)})`)
+      .join("\n"),
+    files: changes.files
+      .map(
+        (f) =>
+          `- ${f.path} (${describeFileStatus(f)}, +${f.additions} -${f.deletions})`
+      )
+      .join("\n"),
+    issue: issue ? formatIssueRef(issue, true) : "",
+    issues: issueFooters(issues, { links: true }).join("\n"),
+    breaking: breaking.join("\n"),
+  };
+}
+
+function lookup(variables: TemplateVariables, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      variables
+    );
+}
+
+// Render the template; `fill` supplies the text of each {{ai}} slot reached,
+// numbered in document order. Slots inside a branch that isn't taken are
+// never asked for.
+export function renderTemplate(
+  nodes: TemplateNode[],
+  variables: TemplateVariables,
+  fill: (instruction: string, index: number) => string
+): string {
+  let slot = 0;
+  const render = (list: TemplateNode[]): string =>
+    list
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.text;
+          case "var": {
+            const value = lookup(variables, node.path);
+            return value === undefined || value === null ? "" : String(value);
+          }
+          case "ai":
+            return fill(node.instruction, slot++);
+          case "if":
+            return render(lookup(variables, node.path) ? node.then : node.else);
+        }
+      })
+      .join("");
+
+  return render(nodes);
+}
@@ -0,0 +1,311 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { basename, dirname, extname, join, relative, resolve } from "path";
+import { homedir } from "os";
+import type { BuiltinTemplate, TemplateEntry } from "./types.js";
+import { findRepoConfig } from "./config.js";
+
+export const USER_TEMPLATES_DIR = join(homedir(), ".pr-desc", "templates");
+// Name of a repository's single .github/pull_request_template.md
+export const GITHUB_TEMPLATE_NAME = "github";
+
+// Built-in styles. `structure` is the layout the model follows when writing
+// free text; `guidance` goes with the structured prompt, whose layout comes
+// from renderPRMarkdown in pr-generator.ts.
+export const BUILTIN_TEMPLATES: Record<string, BuiltinTemplate> = {
+  standard: {
+    description: "Production-ready description with rationale and test steps",
+    instruction:
+      "Write a **standard** **production-ready** Pull Request description in clean Markdown.",
+    guidance: "Write a standard, production-ready description.",
+    structure: `# Title
+[Short, clear title summarizing the change in under 10 words.]
+
+## Summary of Changes
+[Concise high-level overview of what this PR does, focusing on the end result.]
+
+## What Was Changed
+[List the specific code modifications, features added, bugs fixed, or files updated. Use bullet points for clarity.]
+
+## Why This Change Was Made
+[Explain the rationale, problem solved, or context from related work.]
+
+
+## Technical Details
+[Include implementation specifics, relevant algorithms, dependencies, DB changes, env vars, or API modifications.]
+
+
+## How to Test
+1. Checkout this branch.
+2. Run \`npm install\` and \`npm run dev\`.
+3. Navigate to **[feature/page/URL]**.
+4. Perform **[specific actions]**.
+5. Verify **[expected results]**.
+
+
+## Breaking Changes
+[List any breaking changes or write \`None\`. Include migration steps if applicable.]
+**NOTE** Breaking Changes **includes but not limited** to the following conditions:
+
+1. A new feature implemented
+2. A Big refactor to current implementation
+
+## Related Issues / References
+[Optional: Link to Jira ticket, GitHub issue, or related PR.]
+`,
+  },
+  detailed: {
+    description: "Comprehensive: design decisions, testing and extra notes",
+    instruction:
+      "Write a **production-ready** and **comprehensive** Pull Request description in clean Markdown.",
+    guidance:
+      "Write a comprehensive description: detailed changes, design decisions and thorough testing steps.",
+    structure: `# Title
+[Short, clear title summarizing the change in under 10 words.]
+
+## Summary of Changes
+[Brief high-level overview of what this PR achieves.]
+
+## Changes Made
+[Detailed bullet list of modifications, new features, and fixes.]
+
+## Technical Details
+[Explain the approach, important design decisions, dependencies, DB changes, env vars, or API changes.]
+
+## Testing
+[Steps to test the PR — actions, expected results, and verification points.]
+
+## Breaking Changes
+[List any breaking changes or write \`None\`. Include migration instructions if necessary.]
+
+## Additional Notes
+[Optional extra context, performance considerations, or known limitations.]
+`,
+  },
+  minimal: {
+    description: "A two line summary and the key changes",
+    instruction:
+      "Write a **concise** and **minimal** Pull Request description in clean Markdown.",
+    guidance:
+      "Write a concise, minimal description: a two line summary and only the main changes.",
+    structure: `# Title
+[Short, clear title summarizing the change.]
+
+## Summary
+[A two line summary of what was changed.]
+
+## Key Changes
+[Bullet points summarizing the main changes.]
+`,
+  },
+};
+
+// Starting point for `pr-desc templates new` (see template-engine.ts)
+const STARTER_TEMPLATE = `# {{ai "Short, clear title summarizing the change in under 10 words"}}
+
+## Summary
+{{ai "Two or three sentences on what this PR does and why"}}
+
+## Changes
+{{ai "Bullet list of the main changes"}}
+
+{{#if breaking}}
+## Breaking Changes
+{{breaking}}
+
+{{/if}}
+## How to Test
+{{ai "Numbered steps to verify the change, ending with the expected result"}}
+
+## Checklist
+- [ ] Tests added or updated
+- [ ] Docs updated
+
+{{issues}}
+`;
+
+// Same stopping rule as findRepoConfig: the directory holding .git
+function findRepoRoot(startDir = process.cwd()): string | undefined {
+  let dir = resolve(startDir);
+  while (true) {
+    if (existsSync(join(dir, ".git"))) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function isFile(path: string): boolean {
+  return existsSync(path) && statSync(path).isFile();
+}
+
+// GitHub matches these names case-insensitively
+function findEntry(dir: string, name: string): string | undefined {
+  if (!existsSync(dir)) return undefined;
+  const match = readdirSync(dir).find(
+    (entry) => entry.toLowerCase() === name.toLowerCase()
+  );
+  return match ? join(dir, match) : undefined;
+}
+
+function markdownFiles(dir: string | undefined): string[] {
+  if (!dir || !existsSync(dir) || !statSync(dir).isDirectory()) return [];
+  return readdirSync(dir)
+    .filter((name) => extname(name).toLowerCase() === ".md")
+    .sort()
+    .map((name) => join(dir, name));
+}
+
+function templateName(path: string): string {
+  return basename(path, extname(path));
+}
+
+function githubTemplates(root: string | undefined): TemplateEntry[] {
+  if (!root) return [];
+  const github = join(root, ".github");
+  const single = findEntry(github, "pull_request_template.md");
+  const entries: TemplateEntry[] =
+    single && isFile(single)
+      ? [{ name: GITHUB_TEMPLATE_NAME, source: "github", path: single }]
+      : [];
+  for (const path of markdownFiles(
+    findEntry(github, "PULL_REQUEST_TEMPLATE")
+  )) {
+    entries.push({ name: templateName(path), source: "github", path });
+  }
+  return entries;
+}
+
+function uniqueByName(entries: TemplateEntry[]): TemplateEntry[] {
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    if (seen.has(entry.name)) return false;
+    seen.add(entry.name);
+    return true;
+  });
+}
+
+// Templates that resolve in every repository: ~/.pr-desc/templates and the
+// built-ins. Only these make sense as a global default.
+export function listGlobalTemplates(): TemplateEntry[] {
+  const entries: TemplateEntry[] = [];
+  for (const path of markdownFiles(USER_TEMPLATES_DIR)) {
+    entries.push({ name: templateName(path), source: "user", path });
+  }
+  for (const [name, template] of Object.entries(BUILTIN_TEMPLATES)) {
+    entries.push({
+      name,
+      source: "builtin",
+      description: template.description,
+    });
+  }
+  return uniqueByName(entries);
+}
+
+// Every template available in `repoPath` (or the current directory), in
+// order of precedence: repo config, the repo's .github templates,
+// ~/.pr-desc/templates, built-ins. A name found twice resolves to the first.
+export function listTemplates(repoPath?: string): TemplateEntry[] {
+  const entries: TemplateEntry[] = [];
+
+  const repoConfig = findRepoConfig(repoPath);
+  for (const [name, file] of Object.entries(
+    repoConfig?.config.templates ?? {}
+  )) {
+    // paths are relative to the config file ("package.json#pr-desc" too)
+    const path = resolve(dirname(repoConfig!.path), file);
+    entries.push({ name, source: "repo", path });
+  }
+  entries.push(...githubTemplates(findRepoRoot(repoPath)));
+  entries.push(...listGlobalTemplates());
+  return uniqueByName(entries);
+}
+
+export function findTemplate(
+  name: string,
+  repoPath?: string
+): TemplateEntry | undefined {
+  return listTemplates(repoPath).find((entry) => entry.name === name);
+}
+
+// The Markdown of a template: the file for file-based ones, the layout the
+// model is asked to follow for built-ins.
+export function readTemplate(entry: TemplateEntry): string {
+  if (entry.source === "builtin") {
+    return BUILTIN_TEMPLATES[entry.name].structure;
+  }
+  try {
+    return readFileSync(entry.path!, "utf-8");
+  } catch (error) {
+    throw new Error(
+      `Could not read template "${entry.name}" (${entry.path}): ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+// A repository's own GitHub PR template, used when nothing more specific
+// picks one: .github/pull_request_template.md, or the only file in
+// .github/PULL_REQUEST_TEMPLATE/.
+export function getRepoDefaultTemplate(repoPath?: string): string | undefined {
+  const templates = githubTemplates(findRepoRoot(repoPath));
+  const single = templates.find((t) => t.name === GITHUB_TEMPLATE_NAME);
+  if (single) return single.name;
+  return templates.length === 1 ? templates[0].name : undefined;
+}
+
+// Create a template file, seeded from `from` or the starter template.
+// Refuses to overwrite an existing file.
+export function createTemplate(
+  name: string,
+  options: { from?: string; github?: boolean; repoPath?: string } = {}
+): string {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(
+      `Invalid template name "${name}": use letters, digits, ".", "_" and "-".`
+    );
+  }
+
+  let dir = USER_TEMPLATES_DIR;
+  if (options.github) {
+    const root = findRepoRoot(options.repoPath);
+    if (!root) throw new Error("Not inside a git repository.");
+    dir = join(root, ".github", "PULL_REQUEST_TEMPLATE");
+  }
+  const path = join(dir, `${name}.md`);
+  if (existsSync(path)) {
+    throw new Error(`${path} already exists.`);
+  }
+
+  let content = STARTER_TEMPLATE;
+  if (options.from) {
+    const source = findTemplate(options.from, options.repoPath);
+    if (!source) throw new Error(`Unknown template "${options.from}".`);
+    content = readTemplate(source);
+  }
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(path, content);
+  return path;
+}
+
+// Where a template comes from, for listings
+export function describeTemplateSource(
+  entry: TemplateEntry,
+  repoPath?: string
+): string {
+  if (!entry.path) return "built-in";
+  const root = findRepoRoot(repoPath);
+  const shown =
+    root && entry.path.startsWith(root + "/")
+      ? relative(root, entry.path)
+      : entry.path.replace(homedir(), "~");
+  return `${entry.source === "user" ? "user" : "repo"}: ${shown}`;
+}
@@ -1,10 +1,95 @@
 export interface GitChanges {
-  baseBranch: string;
-  currentBranch: string;
+  baseRef: string; // base branch, range start or parent commit
+  headRef: string; // current branch, range end or the described commit
   files: FileChange[];
   commits: CommitInfo[];
   stats: GitStats;
-  mode?: "branch" | "staged"; // added this for commit
+  mode?: "branch" | "staged" | "range" | "commit"; // added this for commit
+}
+
+export interface PROptions {
+  title?: string;
+  draft?: boolean; // create only; gh can't turn a PR back into a draft on edit
+  labels?: string[];
+  reviewers?: string[];
+  assignees?: string[];
+  milestone?: string;
+}
+
+export interface PullRequestRef {
+  number: number;
+  url: string;
+}
+
+// Where PRs (or GitLab merge requests) are read and written
+export interface PullRequestClient {
+  name: "gh" | "rest" | "gitlab";
+  getPRForBranch(branch: string): Promise<PullRequestRef | null>;
+  getPRBody(prNumber: number): Promise<string>;
+  createPR(
+    body: string,
+    options: PROptions & { head: string; base: string }
+  ): Promise<string>; // PR URL
+  updatePR(prNumber: number, body: string, options: PROptions): Promise<void>;
+  listLabels(): Promise<string[]>;
+}
+
+export interface GitHubClient extends PullRequestClient {
+  name: "gh" | "rest";
+}
+
+export interface GitHubConfig {
+  client?: "auto" | "gh" | "rest";
+  apiUrl?: string; // REST base URL, e.g. https://ghe.example.com/api/v3
+}
+
+export interface GitLabConfig {
+  baseUrl?: string; // e.g. https://gitlab.example.com (default: the origin host)
+}
+
+// Response cache in ~/.pr-desc/cache (see cache.ts)
+export interface CacheConfig {
+  ttlHours?: number; // default: 168 (a week)
+  maxSizeMB?: number; // default: 50
+}
+
+// Secret redaction (see redact.ts)
+export interface RedactConfig {
+  patterns?: Record<string, string>; // name -> regex source
+  disable?: string[]; // built-in detectors to turn off, e.g. "high-entropy"
+}
+
+// Issue linking (see issues.ts)
+export interface IssuesConfig {
+  patterns?: Record<string, string>; // tracker -> regex source; group 1 is the id
+  urls?: Record<string, string>; // tracker -> link template, e.g. ".../browse/{id}"
+  disable?: string[]; // trackers to turn off, e.g. "jira"
+  jiraProjects?: string[]; // Jira project keys to match, e.g. ["PROJ"]
+  closeBranchNumber?: boolean; // "42-title" branches close #42
+}
+
+export interface IssueRef {
+  tracker: string; // "jira", "github" or a configured name
+  key: string; // as written, e.g. "PROJ-123" or "#42"
+  id: string; // what {id} in the URL template stands for
+  url?: string;
+  closes: boolean; // named explicitly by the branch or a "fixes #N" commit
+}
+
+export interface CacheStats {
+  path: string;
+  entries: number;
+  bytes: number;
+  oldest?: Date;
+  newest?: Date;
+  ttlHours: number;
+  maxSizeMB: number;
+}
+
+export interface GitChangesOptions {
+  repoPath?: string; // defaults to the current working directory
+  fetch?: boolean; // run `git fetch` first (default: true)
+  mode?: "branch" | "staged";
 }
 
 export interface FileChange {
@@ -13,11 +98,19 @@ export interface FileChange {
   additions: number;
   deletions: number;
   patch: string | null;
+  oldPath?: string; // source path for renames and copies
+  similarity?: number; // rename/copy similarity index (0-100)
+  oldMode?: string; // set only when the file mode changed
+  newMode?: string;
+  binary?: boolean;
+  redacted?: string[]; // detectors that scrubbed secrets from the patch
+  ignored?: boolean; // matched .prdescignore or a built-in default; no patch
 }
 
 export interface CommitInfo {
   hash: string;
   message: string;
+  body?: string;
   author: string;
   date: string;
 }
@@ -33,6 +126,7 @@ export type FileStatus =
   | "deleted"
   | "modified"
   | "renamed"
+  | "copied"
   | "binary"
   | "unknown";
 
@@ -42,8 +136,63 @@ export interface GenerateOptions {
   template: string;
   customTemplateContent?: string;
   maxFiles?: number;
-  maxDiffLines?: number;
+  tokenBudget?: number;
+  changeSummaries?: string; // multi-pass summaries used instead of the raw diff
   refineFrom?: string;
+  incremental?: boolean; // refineFrom describes earlier commits; changes are only the new ones
+  onToken?: (text: string) => void; // stream the Markdown as it's generated
+  onWarning?: (message: string) => void; // e.g. structured output fell back to free text
+  abortSignal?: AbortSignal;
+  cache?: boolean; // false skips the response cache (--no-cache, regenerate)
+  issues?: IssueRef[]; // linked in the body and listed in Related Issues
+}
+
+// Template library (see templates.ts)
+export interface TemplateEntry {
+  name: string;
+  source: "repo" | "github" | "user" | "builtin";
+  path?: string; // Markdown file; built-ins have none
+  description?: string;
+}
+
+export interface BuiltinTemplate {
+  description: string;
+  instruction: string; // free-text prompt: what kind of description to write
+  guidance: string; // structured prompt: the same, for generateObject
+  structure: string; // Markdown layout the free-text answer follows
+}
+
+export interface PackedFile {
+  path: string;
+  mode: "full" | "trimmed" | "summary" | "ignored";
+  omittedHunks?: number;
+}
+
+export interface PackedDiff {
+  text: string;
+  files: PackedFile[];
+  budget: number;
+  estimatedTokens: number;
+}
+
+// Structured PR description returned by the model (see pr-generator.ts)
+export interface PRContent {
+  title: string;
+  summary: string;
+  changes: string[];
+  rationale: string;
+  technicalDetails?: string;
+  testing: string[];
+  breakingChanges: string[];
+  relatedIssues: string[];
+  notes?: string;
+  sinceLastReview?: string[]; // --incremental: what the new commits changed
+}
+
+export interface PRDescription {
+  title?: string;
+  body: string; // Markdown without the "# Title" heading
+  content?: PRContent; // missing for custom templates and free-text fallback
 }
 
 export interface SimpleGitFile {
@@ -74,6 +223,32 @@ export interface PackageJson {
 export interface ProviderConfig {
   baseURL: string;
   apiKey?: string;
+  defaultModel: string;
+  models: string[];
+  verifyModels?: boolean; // check models against the provider's /models endpoint
+  contextWindow?: number; // tokens, used to size the diff budget
+}
+
+// Effective settings after merging CLI flags, env, repo and global config
+export interface ResolvedSettings {
+  provider: string;
+  model?: string;
+  template: string;
+  baseBranch: string;
+  maxFiles: number;
+  commitScopes?: string[];
+}
+
+export type SettingSource = "cli" | "env" | "repo" | "global" | "default";
+
+// Provider entry as written by the user in ~/.pr-desc/config.json
+export interface UserProviderConfig {
+  baseURL?: string;
+  apiKey?: string;
+  defaultModel?: string;
+  models?: string[];
+  verifyModels?: boolean;
+  contextWindow?: number;
 }
 
 export interface SupportedProviders {
@@ -84,9 +259,14 @@ export interface CommitMessageOptions {
   provider: string;
   model?: string;
   maxFiles?: number;
-  maxDiffLines?: number;
+  tokenBudget?: number;
   typeHint?: string;
+  scopes?: string[]; // allowed commit scopes
   refineFrom?: string;
+  body?: boolean; // full message with body and footers
+  breaking?: string; // forces a BREAKING CHANGE footer
+  footers?: string[]; // extra footers, e.g. "Refs: #12"
+  cache?: boolean; // false skips the response cache (--no-cache, regenerate)
 }
 
 export interface CLIGenerateOptions {
@@ -96,16 +276,88 @@ export interface CLIGenerateOptions {
   template?: string;
   templateFile?: string;
   maxFiles?: string; // will parse to number
+  tokenBudget?: string; // will parse to number
+  multiPass?: boolean;
+  concurrency?: string; // will parse to number
   dryRun?: boolean;
   ghPr?: boolean;
+  repo?: string;
+  fetch?: boolean; // false with --no-fetch
+  range?: string; // <from>..<to>
+  commit?: string; // single commit sha
+  format?: string; // markdown (default) or json
+  title?: string;
+  draft?: boolean;
+  label?: string[];
+  reviewer?: string[];
+  assignee?: string[];
+  milestone?: string;
+  autoLabel?: boolean; // false with --no-auto-label
+  githubClient?: string; // auto | gh | rest
+  mr?: boolean; // publish to a GitLab merge request
+  replaceAll?: boolean; // overwrite the whole body on update, not just our region
+  incremental?: boolean; // only describe commits pushed since the last update
+  stream?: boolean; // --stream / --no-stream; unset streams to a terminal only
+  cache?: boolean; // false with --no-cache
+}
+
+export interface CLIHookOptions {
+  repo?: string;
+  body?: boolean;
+  force?: boolean;
+}
+
+export interface CLIChangelogOptions {
+  from?: string;
+  to?: string;
+  repo?: string;
+  release?: string;
+  format?: string; // markdown | json
+  ai?: boolean;
+  provider?: string;
+  model?: string;
+  prepend?: string | boolean; // path, or true for CHANGELOG.md
+  cache?: boolean; // false with --no-cache
+}
+
+export interface ChangelogEntry {
+  type: string;
+  scope?: string;
+  subject: string;
+  breaking: boolean;
+  hash: string;
+  author: string;
+}
+
+export interface ChangelogGroup {
+  type: string;
+  label: string;
+  scopes: { scope?: string; entries: ChangelogEntry[] }[];
+  prose?: string; // AI rewritten summary of the group
+}
+
+export interface Changelog {
+  release: string;
+  date: string;
+  from: string;
+  to: string;
+  breaking: ChangelogEntry[];
+  groups: ChangelogGroup[]; // everything that isn't breaking
 }
 
 export interface CLIModelsOptions {
   provider?: string;
 }
 
+export interface CLITemplatesOptions {
+  from?: string; // template to copy for `new`
+  github?: boolean; // `new` into .github/PULL_REQUEST_TEMPLATE/
+  repo?: string;
+}
+
 export interface CLIConfigOptions {
   unmask?: boolean;
+  resolved?: boolean;
 }
 
 export interface CLICommitOptions {
@@ -113,21 +365,142 @@ export interface CLICommitOptions {
   provider?: string;
   model?: string;
   maxFiles?: string;
+  tokenBudget?: string;
   typeHint?: string;
   stage?: boolean;
   commit?: boolean;
+  body?: boolean;
+  breaking?: string;
+  refs?: string;
+  coAuthor?: string[];
+  hook?: string; // prepare-commit-msg message file
+  format?: string; // text (default) or json
+  repo?: string;
+  fetch?: boolean; // false with --no-fetch
+  cache?: boolean; // false with --no-cache
+}
+
+// JSON output (--format json), described by the schemas in json-output.ts
+export interface QuickSummary {
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  suggestedCommit?: string;
+  prType?: string;
+}
+
+export interface FileAnalysis {
+  path: string;
+  status: FileStatus;
+  additions: number;
+  deletions: number;
+  oldPath?: string;
+  included: PackedFile["mode"]; // how much of the diff the model saw
+  omittedHunks?: number;
+  redacted?: string[]; // secret detectors that matched in the patch
+}
+
+export interface OutputSection {
+  heading: string;
+  content: string;
+}
+
+export interface JsonOutputBase {
+  schemaVersion: 1;
+  provider: string;
+  model: string;
+  changes: {
+    baseRef: string;
+    headRef: string;
+    mode?: GitChanges["mode"];
+    stats: GitStats;
+    commits: Pick<CommitInfo, "hash" | "message">[];
+  };
+  files: {
+    total: number;
+    analyzed: number; // sent with the full diff
+    truncated: number; // trimmed at hunk boundaries
+    summarized: number; // only listed as "path (status, +a -d)"
+    ignored: number; // matched .prdescignore, listed without a diff
+    multiPass: boolean;
+    details: FileAnalysis[];
+  };
+  timing: {
+    startedAt: string;
+    durationMs: number;
+  };
+}
+
+export interface GenerateJsonOutput extends JsonOutputBase {
+  kind: "pr-description";
+  title?: string;
+  body: string;
+  sections: OutputSection[];
+  content?: PRContent;
+  template: string;
+  suggestedCommit?: string;
+  prType?: string;
+}
+
+export interface CommitJsonOutput extends JsonOutputBase {
+  kind: "commit-message";
+  message: string;
+  header: string;
+  body?: string;
+  footers: string[];
+  type?: string;
+  scope?: string;
+  breaking: boolean;
+  problems: string[]; // Conventional Commits violations, empty when valid
+  committed: boolean;
+}
+
+// Credentials
+export interface CredentialStore {
+  name: string;
+  get(provider: string): string | undefined;
+  set?(provider: string, apiKey: string): void;
+  delete?(provider: string): void;
+  list(): string[];
 }
 
 // Errors
+export class CredentialStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialStoreError";
+  }
+}
 export class GhError extends Error {
   constructor(message: string) {
     super(message);
     this.name = "GhError";
   }
 }
+export class GitHubApiError extends GhError {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
 export class GhNeedsPushError extends GhError {
   constructor() {
     super("You must push the current branch to a remote before creating a PR.");
     this.name = "GhNeedsPushError";
   }
 }
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+export class CancelledError extends Error {
+  constructor() {
+    super("Cancelled");
+    this.name = "CancelledError";
+  }
+}
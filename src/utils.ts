@@ -1,3 +1,5 @@
+import type { FileChange, OutputSection } from "./types.js";
+
 export function maskApiKey(apiKey: string, visibleChars = 4): string {
   if (apiKey.length <= visibleChars * 2) {
     return apiKey;
@@ -17,25 +19,27 @@ export function formatCommitMessage(message: string): string {
     .replace(/^['"`]|['"`]$/g, "");
 }
 
+export const CONVENTIONAL_TYPES = [
+  "feat",
+  "fix",
+  "docs",
+  "style",
+  "refactor",
+  "perf",
+  "test",
+  "chore",
+  "build",
+  "ci",
+];
+
 export function ensureConventionalCommit(
   message: string,
   typeHint?: string
 ): string {
-  const validTypes = [
-    "feat",
-    "fix",
-    "docs",
-    "style",
-    "refactor",
-    "perf",
-    "test",
-    "chore",
-    "build",
-    "ci",
-  ];
+  const validTypes = CONVENTIONAL_TYPES;
   const clean = message.trim().replace(/\.$/, "");
   const conventionalRegex = new RegExp(
-    `^(${validTypes.join("|")})(\([^)]*\))?:\\s+.+`,
+    `^(${validTypes.join("|")})(\\([^)]*\\))?!?:\\s+.+`,
     "i"
   );
 
@@ -57,7 +61,7 @@ export function ensureConventionalCommit(
   const hint = typeHint && validTypes.includes(typeHint) ? typeHint : "chore";
   let summary = clean
     .replace(/^[^a-zA-Z0-9]+/, "")
-    .replace(new RegExp(`^(${validTypes.join("|")})[:\s-]+`, "i"), "")
+    .replace(new RegExp(`^(${validTypes.join("|")})[:\\s-]+`, "i"), "")
     .trim();
 
   summary = summary.replace(/^[A-Z]/, (c) => c.toLowerCase());
@@ -93,3 +97,246 @@ export const mapTypeToLabel = (t: string) => {
       return t ? t.charAt(0).toUpperCase() + t.slice(1) : "Unknown";
   }
 };
+
+// Run `fn` over `items` with at most `limit` calls in flight, keeping order.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    () => worker()
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+// Human/LLM readable status, e.g. "renamed from src/a.ts (97% similar), binary"
+export function describeFileStatus(file: FileChange): string {
+  const parts: string[] = [];
+
+  if ((file.status === "renamed" || file.status === "copied") && file.oldPath) {
+    const similarity =
+      file.similarity !== undefined ? ` (${file.similarity}% similar)` : "";
+    parts.push(`${file.status} from ${file.oldPath}${similarity}`);
+  } else {
+    parts.push(file.status);
+  }
+
+  if (file.oldMode && file.newMode) {
+    parts.push(`mode ${file.oldMode} -> ${file.newMode}`);
+  }
+  if (file.binary && file.status !== "binary") {
+    parts.push("binary");
+  }
+
+  return parts.join(", ");
+}
+
+export interface ParsedConventionalCommit {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  subject: string;
+}
+
+// Parse a Conventional Commit header ("feat(api)!: add x"). The body is only
+// used to spot a "BREAKING CHANGE:" footer.
+export function parseConventionalCommit(
+  header: string,
+  body = ""
+): ParsedConventionalCommit | null {
+  const match = header
+    .trim()
+    .match(/^([a-zA-Z]+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/);
+  if (!match) return null;
+
+  const [, type, scope, bang, subject] = match;
+  return {
+    type: type.toLowerCase(),
+    scope: scope?.trim() || undefined,
+    breaking: Boolean(bang) || /^BREAKING[ -]CHANGE:/m.test(body),
+    subject: subject.trim(),
+  };
+}
+
+export interface CommitMessageParts {
+  header: string;
+  body: string;
+  footers: string[];
+}
+
+// "Token: value" / "Token #value" trailers, see conventionalcommits.org §8-10
+const FOOTER_LINE = /^(BREAKING CHANGE|BREAKING-CHANGE|[A-Za-z][\w-]*)(: | #)/;
+
+// Strip code fences and wrapping quotes the model sometimes adds around a
+// full commit message.
+export function formatFullCommitMessage(message: string): string {
+  return message
+    .replace(/\r\n/g, "\n")
+    .replace(/^\s*```[a-z]*\n?/i, "")
+    .replace(/\n?```\s*$/, "")
+    .trim()
+    .replace(/^['"`]|['"`]$/g, "")
+    .trim();
+}
+
+export function splitCommitMessage(message: string): CommitMessageParts {
+  const [header = "", ...rest] = message
+    .replace(/\r\n/g, "\n")
+    .trim()
+    .split("\n");
+  const paragraphs = rest
+    .join("\n")
+    .trim()
+    .split(/\n\s*\n/)
+    .filter((p) => p.trim());
+
+  const footers: string[] = [];
+  const last = paragraphs[paragraphs.length - 1];
+  if (last && FOOTER_LINE.test(last)) {
+    paragraphs.pop();
+    for (const line of last.split("\n")) {
+      if (FOOTER_LINE.test(line) || !footers.length) {
+        footers.push(line.trim());
+      } else {
+        // continuation of a multi-line footer value
+        footers[footers.length - 1] += `\n${line.trim()}`;
+      }
+    }
+  }
+
+  return {
+    header: header.trim(),
+    body: paragraphs.join("\n\n").trim(),
+    footers,
+  };
+}
+
+export function buildCommitMessage(parts: CommitMessageParts): string {
+  return [parts.header, parts.body, parts.footers.join("\n")]
+    .filter((part) => part.trim())
+    .join("\n\n");
+}
+
+// Word-wrap plain paragraphs and "- " bullets to `width` columns.
+export function wrapText(text: string, width = 72): string {
+  const wrapLine = (line: string): string[] => {
+    const bullet = line.match(/^(\s*[-*]\s+)/)?.[1] ?? "";
+    const indent = " ".repeat(bullet.length);
+    const words = line.slice(bullet.length).split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let current = bullet;
+
+    for (const word of words) {
+      const prefix = lines.length ? indent : bullet;
+      if (
+        current.length > prefix.length &&
+        current.length + 1 + word.length > width
+      ) {
+        lines.push(current);
+        current = indent + word;
+      } else {
+        current += (current.length > prefix.length ? " " : "") + word;
+      }
+    }
+    lines.push(current);
+    return lines;
+  };
+
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => {
+      const lines = paragraph.split("\n");
+      // keep bullet lists line by line, re-flow everything else
+      if (lines.some((l) => /^\s*[-*]\s+/.test(l))) {
+        return lines.flatMap(wrapLine).join("\n");
+      }
+      return wrapLine(lines.map((l) => l.trim()).join(" ")).join("\n");
+    })
+    .join("\n\n");
+}
+
+// Check a full commit message against the Conventional Commits 1.0.0 spec
+// (plus our 72 character subject limit). Returns a list of problems.
+export function validateConventionalCommit(message: string): string[] {
+  const errors: string[] = [];
+  const lines = message.replace(/\r\n/g, "\n").split("\n");
+  const header = lines[0] ?? "";
+  const match = header.match(/^([a-zA-Z]+)(\([^()\s][^()]*\))?(!)?: (\S.*)$/);
+
+  if (!match) {
+    errors.push(
+      'Header must look like "<type>(<scope>)!: <description>" (scope and ! are optional)'
+    );
+  } else {
+    const [, type, , , description] = match;
+    if (!CONVENTIONAL_TYPES.includes(type.toLowerCase())) {
+      errors.push(
+        `Unknown type "${type}" (expected one of: ${CONVENTIONAL_TYPES.join(", ")})`
+      );
+    }
+    if (description.length > 72) {
+      errors.push("Description must be 72 characters or less");
+    }
+    if (/\.$/.test(description)) {
+      errors.push("Description must not end with a period");
+    }
+  }
+
+  if (lines.length > 1 && lines[1].trim() !== "") {
+    errors.push("Header must be followed by a blank line");
+  }
+
+  const { footers } = splitCommitMessage(message);
+  for (const footer of footers) {
+    const token = footer.match(FOOTER_LINE)?.[1];
+    if (!token) {
+      errors.push(`Invalid footer "${footer.split("\n")[0]}"`);
+      continue;
+    }
+    const value = footer.slice(footer.indexOf(token) + token.length + 2);
+    if (!value.trim()) {
+      errors.push(`Footer "${token}" must have a value`);
+    }
+  }
+
+  return errors;
+}
+
+// Split a generated description into its "# Title" and "##" sections.
+export function splitMarkdownSections(markdown: string): {
+  title?: string;
+  body: string;
+  sections: OutputSection[];
+} {
+  let body = markdown.replace(/\r\n/g, "\n").trim();
+  const titleMatch = body.match(/^#\s+(.+)\n?/);
+  const title = titleMatch?.[1].trim();
+  if (titleMatch) body = body.slice(titleMatch[0].length).trim();
+
+  const sections: OutputSection[] = [];
+  for (const chunk of body.split(/^(?=##\s)/m)) {
+    const heading = chunk.match(/^##\s+(.+)/)?.[1];
+    if (!heading) continue;
+    sections.push({
+      heading: heading.trim(),
+      content: chunk.includes("\n")
+        ? chunk.slice(chunk.indexOf("\n") + 1).trim()
+        : "",
+    });
+  }
+
+  return { title, body, sections };
+}